@@ -1,5 +1,5 @@
 import React, { createElement, useState, useEffect } from 'react'
-import { render } from '@testing-library/react'
+import { render, act, fireEvent } from '@testing-library/react'
 
 import { Combobox } from './combobox'
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
@@ -36,6 +36,7 @@ import {
   ComboboxState,
   getByText,
   getComboboxes,
+  getCombobox,
   assertCombobox,
   ComboboxMode,
   assertNotActiveComboboxOption,
@@ -59,6 +60,9 @@ describe('safeguards', () => {
     ['Combobox.Label', Combobox.Label],
     ['Combobox.Options', Combobox.Options],
     ['Combobox.Option', Combobox.Option],
+    ['Combobox.Status', Combobox.Status],
+    ['Combobox.Group', Combobox.Group],
+    ['Combobox.SelectedOption', Combobox.SelectedOption],
   ])(
     'should error when we are using a <%s /> without a parent <Combobox />',
     suppressConsoleLogs((name, Component) => {
@@ -634,7 +638,7 @@ describe('Rendering', () => {
         })
         assertComboboxList({
           state: ComboboxState.Visible,
-          textContent: JSON.stringify({ open: true }),
+          textContent: JSON.stringify({ open: true, loading: false, empty: false }),
         })
         assertActiveElement(getComboboxInput())
       })
@@ -4918,7 +4922,1007 @@ describe('Multi-select', () => {
   )
 })
 
+describe('Groups', () => {
+  function Example({ onChange = NOOP }: { onChange?: (value: string | null) => void }) {
+    let [value, setValue] = useState<string | null>(null)
+
+    return (
+      <Combobox
+        value={value}
+        onChange={(value) => {
+          setValue(value)
+          onChange(value)
+        }}
+      >
+        <Combobox.Input onChange={NOOP} />
+        <Combobox.Button>Trigger</Combobox.Button>
+        <Combobox.Options>
+          <Combobox.Group value="fruit">
+            <Combobox.GroupLabel>Fruit</Combobox.GroupLabel>
+            <Combobox.Option value="apple">
+              {({ group }) => <>Apple ({String(group)})</>}
+            </Combobox.Option>
+            <Combobox.Option value="banana">Banana</Combobox.Option>
+          </Combobox.Group>
+          <Combobox.Group value="vegetables">
+            <Combobox.GroupLabel>Vegetables</Combobox.GroupLabel>
+            <Combobox.Option value="carrot">
+              {({ group }) => <>Carrot ({String(group)})</>}
+            </Combobox.Option>
+          </Combobox.Group>
+        </Combobox.Options>
+      </Combobox>
+    )
+  }
+
+  it(
+    'should error when we are using a <Combobox.GroupLabel /> without a parent <Combobox.Group />',
+    suppressConsoleLogs(async () => {
+      expect(() => render(<Combobox.GroupLabel>Fruit</Combobox.GroupLabel>)).toThrowError(
+        '<Combobox.GroupLabel /> is missing a parent <Combobox.Group /> component.'
+      )
+    })
+  )
+
+  it(
+    'should render groups labelled by their group label',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getComboboxButton())
+
+      let groups = Array.from(document.querySelectorAll('[role="group"]'))
+      expect(groups).toHaveLength(2)
+      expect(groups[0]).toHaveAttribute('aria-labelledby', getByText('Fruit')?.id)
+      expect(groups[1]).toHaveAttribute('aria-labelledby', getByText('Vegetables')?.id)
+
+      // The group labels are not options
+      expect(getComboboxOptions()).toHaveLength(3)
+    })
+  )
+
+  it(
+    'should expose the group in the render prop of the option',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getComboboxButton())
+
+      let options = getComboboxOptions()
+      expect(options[0]).toHaveTextContent('Apple (fruit)')
+      expect(options[2]).toHaveTextContent('Carrot (vegetables)')
+    })
+  )
+
+  it(
+    'should skip the group labels when navigating across groups',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await press(Keys.ArrowDown)
+
+      let options = getComboboxOptions()
+      assertActiveComboboxOption(options[0])
+
+      await press(Keys.ArrowDown)
+      assertActiveComboboxOption(options[1])
+
+      await press(Keys.ArrowDown)
+      assertActiveComboboxOption(options[2])
+
+      await press(Keys.ArrowUp)
+      assertActiveComboboxOption(options[1])
+
+      await press(Keys.ArrowDown)
+      await press(Keys.Enter)
+      expect(handleChange).toHaveBeenCalledWith('carrot')
+    })
+  )
+})
+
+describe('Inline autocomplete', () => {
+  let people = ['Alice', 'Alex', 'Bob']
+
+  function Example({
+    inline = true,
+    onChange = NOOP,
+  }: {
+    inline?: boolean
+    onChange?: (value: string | null) => void
+  }) {
+    let [value, setValue] = useState<string | null>(null)
+    let [query, setQuery] = useState('')
+    let filtered = people.filter((person) => person.toLowerCase().startsWith(query.toLowerCase()))
+
+    return (
+      <Combobox
+        value={value}
+        onChange={(value) => {
+          setValue(value)
+          onChange(value)
+        }}
+      >
+        <Combobox.Input inline={inline} onChange={(event) => setQuery(event.target.value)} />
+        <Combobox.Options>
+          {filtered.map((person) => (
+            <Combobox.Option key={person} value={person}>
+              {person}
+            </Combobox.Option>
+          ))}
+        </Combobox.Options>
+      </Combobox>
+    )
+  }
+
+  it('should report list autocompletion by default', () => {
+    render(<Example inline={false} />)
+
+    expect(getComboboxInput()).toHaveAttribute('aria-autocomplete', 'list')
+  })
+
+  it(
+    'should complete the active option inline',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let input = getComboboxInput() as HTMLInputElement
+      expect(input).toHaveAttribute('aria-autocomplete', 'both')
+
+      await focus(input)
+      await type(word('al'))
+
+      // The remainder of the active option is suggested and selected
+      assertActiveComboboxOption(getComboboxOptions()[0])
+      expect(input).toHaveValue('alice')
+      expect(input.selectionStart).toBe(2)
+      expect(input.selectionEnd).toBe(5)
+
+      // Move to the next option
+      await press(Keys.ArrowDown)
+      expect(input).toHaveValue('alex')
+      expect(input.selectionStart).toBe(2)
+      expect(input.selectionEnd).toBe(4)
+    })
+  )
+
+  it(
+    'should be possible to accept the suggestion with Enter',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await type(word('al'))
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenCalledWith('Alice')
+      expect(getComboboxInput()).toHaveValue('Alice')
+    })
+  )
+
+  it(
+    'should remove the suggestion instead of the typed text on Backspace',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let input = getComboboxInput()
+
+      await focus(input)
+      await type(word('al'))
+      expect(input).toHaveValue('alice')
+
+      // Browsers only update the value after the keydown, so we can't use `press` here
+      await act(async () => {
+        fireEvent.keyDown(input!, Keys.Backspace)
+      })
+      expect(input).toHaveValue('al')
+    })
+  )
+
+  it(
+    'should not suggest anything when no option matches',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let input = getComboboxInput()
+
+      await focus(input)
+      await type(word('z'))
+
+      expect(getComboboxOptions()).toHaveLength(0)
+      expect(input).toHaveValue('z')
+    })
+  )
+})
+
+describe('Selected options', () => {
+  let people = ['Alice', 'Bob', 'Charlie', 'Dave']
+
+  function Example({ onChange = NOOP }: { onChange?: (value: string[]) => void }) {
+    let [value, setValue] = useState<string[]>(['Alice', 'Bob', 'Charlie'])
+
+    return (
+      <Combobox
+        value={value}
+        onChange={(value: string[]) => {
+          setValue(value)
+          onChange(value)
+        }}
+        multiple
+      >
+        {value.map((person) => (
+          <Combobox.SelectedOption key={person} value={person}>
+            {person}
+          </Combobox.SelectedOption>
+        ))}
+        <Combobox.Input onChange={NOOP} />
+        <Combobox.Status>
+          {({ value, removed }) =>
+            [removed && `${removed} removed`, `${(value as string[]).length} selected`]
+              .filter(Boolean)
+              .join(', ')
+          }
+        </Combobox.Status>
+        <Combobox.Options>
+          {people.map((person) => (
+            <Combobox.Option key={person} value={person}>
+              {person}
+            </Combobox.Option>
+          ))}
+        </Combobox.Options>
+      </Combobox>
+    )
+  }
+
+  let Delete = { key: 'Delete', keyCode: 46 }
+
+  it('should not add the selected options to the tab order', () => {
+    render(<Example />)
+
+    expect(getByText('Alice')).toHaveAttribute('tabindex', '-1')
+    expect(getByText('Alice')).toHaveAttribute('type', 'button')
+  })
+
+  it('should not set the `type` if the selected option is not a "button"', () => {
+    render(
+      <Combobox value={['Alice']} onChange={NOOP} multiple>
+        <Combobox.SelectedOption as="span" value="Alice">
+          Alice
+        </Combobox.SelectedOption>
+        <Combobox.Input onChange={NOOP} />
+      </Combobox>
+    )
+
+    expect(getByText('Alice')).not.toHaveAttribute('type')
+  })
+
+  it(
+    'should be possible to navigate between the selected options and the input',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getComboboxInput())
+
+      await press(Keys.ArrowLeft)
+      assertActiveElement(getByText('Charlie'))
+
+      await press(Keys.ArrowLeft)
+      assertActiveElement(getByText('Bob'))
+
+      await press(Keys.ArrowLeft)
+      assertActiveElement(getByText('Alice'))
+
+      // We can't go further than the first selected option
+      await press(Keys.ArrowLeft)
+      assertActiveElement(getByText('Alice'))
+
+      await press(Keys.ArrowRight)
+      assertActiveElement(getByText('Bob'))
+
+      await press(Keys.ArrowRight)
+      await press(Keys.ArrowRight)
+      assertActiveElement(getComboboxInput())
+    })
+  )
+
+  it(
+    'should move to the last selected option when pressing Backspace in an empty input',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await press(Keys.Backspace)
+
+      assertActiveElement(getByText('Charlie'))
+      expect(handleChange).not.toHaveBeenCalled()
+    })
+  )
+
+  it(
+    'should be possible to remove the focused selected option with Backspace',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      let status = document.querySelector('[role="status"]')
+      expect(status).toHaveTextContent('3 selected')
+
+      await focus(getByText('Bob'))
+      await press(Keys.Backspace)
+
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      expect(handleChange).toHaveBeenLastCalledWith(['Alice', 'Charlie'])
+      expect(getByText('Bob')).toBe(null)
+      assertActiveElement(getByText('Alice'))
+
+      // The remaining selection is announced
+      expect(status).toHaveTextContent('2 selected')
+
+      // Removing the first selected option moves focus to the next one
+      await press(Keys.Backspace)
+      expect(handleChange).toHaveBeenLastCalledWith(['Charlie'])
+      assertActiveElement(getByText('Charlie'))
+    })
+  )
+
+  it(
+    'should expose the removed option to the Combobox.Status',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let status = document.querySelector('[role="status"]')
+      expect(status).toHaveTextContent(/^3 selected$/)
+
+      await focus(getByText('Bob'))
+      await press(Keys.Backspace)
+      expect(status).toHaveTextContent(/^Bob removed, 2 selected$/)
+
+      // Selecting an option replaces the announcement of the removal
+      await focus(getComboboxInput())
+      await type(word('Dave'))
+      await click(getByText('Dave'))
+      expect(status).toHaveTextContent(/^3 selected$/)
+    })
+  )
+
+  it(
+    'should be possible to remove the focused selected option with Delete',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getByText('Charlie'))
+      await press(Delete)
+
+      expect(handleChange).toHaveBeenLastCalledWith(['Alice', 'Bob'])
+      assertActiveElement(getComboboxInput())
+    })
+  )
+})
+
+describe('Loading states', () => {
+  let people = ['Alice', 'Bob', 'Charlie']
+
+  function Example({ search }: { search(query: string, signal: AbortSignal): Promise<string[]> }) {
+    let [results, setResults] = useState<string[]>([])
+
+    return (
+      <Combobox
+        value={null}
+        onChange={NOOP}
+        onQueryChange={async (query, { signal }) => setResults(await search(query, signal))}
+      >
+        {({ loading, empty, error }) => (
+          <>
+            <Combobox.Input onChange={NOOP} />
+            <Combobox.Status>
+              {({ count, error }) =>
+                loading ? 'Loading' : error ? 'Search failed' : `${count} results`
+              }
+            </Combobox.Status>
+            <span>{empty ? 'No results' : ''}</span>
+            <span>{error ? (error as Error).message : ''}</span>
+            <Combobox.Options static>
+              {results.map((person) => (
+                <Combobox.Option key={person} value={person}>
+                  {person}
+                </Combobox.Option>
+              ))}
+            </Combobox.Options>
+          </>
+        )}
+      </Combobox>
+    )
+  }
+
+  it(
+    'should be busy while the options are loading',
+    suppressConsoleLogs(async () => {
+      let resolve = (_: string[]) => {}
+      render(<Example search={() => new Promise((r) => (resolve = r))} />)
+
+      let status = document.querySelector('[role="status"]')
+      expect(status).toHaveAttribute('aria-live', 'polite')
+      expect(getByText('No results')).not.toBe(null)
+
+      await focus(getComboboxInput())
+      await type(word('a'))
+
+      // Verify that we are loading
+      expect(getComboboxOptions()).toHaveLength(0)
+      expect(document.querySelector('[role="listbox"]')).toHaveAttribute('aria-busy', 'true')
+      expect(status).toHaveTextContent('Loading')
+      expect(getByText('No results')).toBe(null)
+
+      // Resolve the query
+      await act(async () => resolve(people))
+
+      // Verify that the results are announced
+      expect(getComboboxOptions()).toHaveLength(3)
+      expect(document.querySelector('[role="listbox"]')).not.toHaveAttribute('aria-busy')
+      expect(status).toHaveTextContent('3 results')
+    })
+  )
+
+  it(
+    'should abort stale queries',
+    suppressConsoleLogs(async () => {
+      let signals: AbortSignal[] = []
+      render(
+        <Example
+          search={(_, signal) => {
+            signals.push(signal)
+            return new Promise(() => {})
+          }}
+        />
+      )
+
+      await focus(getComboboxInput())
+      await type(word('a'))
+      await type(word('ab'))
+
+      // Only the last query should still be relevant
+      expect(signals).toHaveLength(2)
+      expect(signals[0].aborted).toBe(true)
+      expect(signals[1].aborted).toBe(false)
+    })
+  )
+
+  it(
+    'should expose the error of a rejected query',
+    suppressConsoleLogs(async () => {
+      let handleUnhandledRejection = jest.fn()
+      process.on('unhandledRejection', handleUnhandledRejection)
+
+      let reject = (_: Error) => {}
+      let resolve = (_: string[]) => {}
+      let search = jest
+        .fn()
+        .mockImplementationOnce(() => new Promise((_, r) => (reject = r)))
+        .mockImplementationOnce(() => new Promise((r) => (resolve = r)))
+      render(<Example search={search} />)
+
+      let status = document.querySelector('[role="status"]')
+
+      await focus(getComboboxInput())
+      await type(word('a'))
+      expect(status).toHaveTextContent('Loading')
+
+      // Reject the query
+      await act(async () => reject(new Error('Network error')))
+      await new Promise((resolve) => setTimeout(resolve, 0))
+
+      // Verify that the error is exposed, and not thrown
+      expect(status).toHaveTextContent('Search failed')
+      expect(getByText('Network error')).not.toBe(null)
+      expect(handleUnhandledRejection).not.toHaveBeenCalled()
+      process.off('unhandledRejection', handleUnhandledRejection)
+
+      // Verify that the error is cleared by the next query
+      await type(word('ab'))
+      expect(status).toHaveTextContent('Loading')
+      expect(getByText('Network error')).toBe(null)
+
+      await act(async () => resolve(people))
+      expect(status).toHaveTextContent('3 results')
+    })
+  )
+})
+
+describe('Custom values', () => {
+  let people = ['Alice', 'Bob', 'Charlie']
+
+  function Example({
+    multiple = false,
+    onChange = NOOP,
+  }: {
+    multiple?: boolean
+    onChange?: (value: any) => void
+  }) {
+    let [value, setValue] = useState<any>(multiple ? [] : null)
+    let [query, setQuery] = useState('')
+    let filtered = people.filter((person) => person.toLowerCase().includes(query.toLowerCase()))
+
+    return (
+      <>
+        <Combobox
+          value={value}
+          onChange={(value: any) => {
+            setValue(value)
+            onChange(value)
+          }}
+          multiple={multiple}
+          createValue={(query) => query.trim()}
+        >
+          <Combobox.Input onChange={(event) => setQuery(event.target.value)} />
+          <Combobox.Button>Trigger</Combobox.Button>
+          <Combobox.Options>
+            {filtered.map((person) => (
+              <Combobox.Option key={person} value={person}>
+                {person}
+              </Combobox.Option>
+            ))}
+          </Combobox.Options>
+        </Combobox>
+        <button>Outside</button>
+      </>
+    )
+  }
+
+  it(
+    'should be possible to commit the query with Enter when no option matches',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await type(word('Dave'))
+
+      assertComboboxList({ state: ComboboxState.Visible })
+      expect(getComboboxOptions()).toHaveLength(0)
+
+      await press(Keys.Enter)
+
+      // Verify the query is committed as the value
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      expect(handleChange).toHaveBeenLastCalledWith('Dave')
+      assertComboboxList({ state: ComboboxState.InvisibleUnmounted })
+      expect(getComboboxInput()).toHaveValue('Dave')
+    })
+  )
+
+  it(
+    'should prefer the active option over the query when pressing Enter',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await type(word('ali'))
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      expect(handleChange).toHaveBeenLastCalledWith('Alice')
+    })
+  )
+
+  it(
+    'should be possible to commit the query on blur',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await type(word('Dave'))
+      await focus(getByText('Outside'))
+
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      expect(handleChange).toHaveBeenLastCalledWith('Dave')
+      expect(getComboboxInput()).toHaveValue('Dave')
+    })
+  )
+
+  it(
+    'should not commit the query when it did not change',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await focus(getByText('Outside'))
+
+      expect(handleChange).not.toHaveBeenCalled()
+    })
+  )
+
+  it(
+    'should add custom values to the selection in multiple mode',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example multiple onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await type(word('dave@example.com'))
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenLastCalledWith(['dave@example.com'])
+
+      // The Combobox stays open and the input is cleared for the next value
+      assertComboboxList({ state: ComboboxState.Visible })
+      expect(getComboboxInput()).toHaveValue('')
+
+      await type(word('erin@example.com'))
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenLastCalledWith(['dave@example.com', 'erin@example.com'])
+
+      // Committing an existing value should not remove it again
+      await type(word('erin@example.com'))
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenCalledTimes(2)
+      expect(getComboboxInput()).toHaveValue('')
+    })
+  )
+
+  describe('Matching options', () => {
+    let people = [
+      { id: 1, name: 'Alice' },
+      { id: 2, name: 'Bob' },
+    ]
+
+    function Example({ onChange }: { onChange: (value: any) => void }) {
+      let [value, setValue] = useState<any>(null)
+
+      return (
+        <>
+          <Combobox
+            value={value}
+            onChange={(value: any) => {
+              setValue(value)
+              onChange(value)
+            }}
+            createValue={(query) => ({ id: null, name: query })}
+          >
+            <Combobox.Input displayValue={(person: any) => person?.name} onChange={NOOP} />
+            <Combobox.Options>
+              {people.map((person) => (
+                <Combobox.Option key={person.id} value={person}>
+                  {person.name}
+                </Combobox.Option>
+              ))}
+            </Combobox.Options>
+          </Combobox>
+          <button>Outside</button>
+        </>
+      )
+    }
+
+    it(
+      'should select the existing option when the query matches its label on Enter',
+      suppressConsoleLogs(async () => {
+        let handleChange = jest.fn()
+        render(<Example onChange={handleChange} />)
+
+        await focus(getComboboxInput())
+        await type(word('Alice'))
+
+        // Make sure that no option is active
+        await mouseMove(getComboboxOptions()[0])
+        await mouseLeave(getComboboxOptions()[0])
+        await press(Keys.Enter)
+
+        expect(handleChange).toHaveBeenCalledTimes(1)
+        expect(handleChange.mock.calls[0][0]).toBe(people[0])
+      })
+    )
+
+    it(
+      'should select the existing option when the query matches its label on blur',
+      suppressConsoleLogs(async () => {
+        let handleChange = jest.fn()
+        render(<Example onChange={handleChange} />)
+
+        await focus(getComboboxInput())
+        await type(word('Bob'))
+        await focus(getByText('Outside'))
+
+        expect(handleChange).toHaveBeenCalledTimes(1)
+        expect(handleChange.mock.calls[0][0]).toBe(people[1])
+        expect(getComboboxInput()).toHaveValue('Bob')
+      })
+    )
+  })
+})
+
+describe('Virtualization', () => {
+  let people = Array.from({ length: 1000 }, (_, idx) => `Person ${idx + 1}`)
+
+  function Example({
+    onChange = NOOP,
+    disabled,
+  }: {
+    onChange?: (value: string | null) => void
+    disabled?: (value: string) => boolean
+  }) {
+    let [value, setValue] = useState<string | null>(null)
+
+    return (
+      <Combobox
+        value={value}
+        onChange={(value) => {
+          setValue(value)
+          onChange(value)
+        }}
+        virtual={{ options: people, disabled }}
+      >
+        <Combobox.Input onChange={NOOP} />
+        <Combobox.Button>Trigger</Combobox.Button>
+        <Combobox.Options>
+          {({ option }) => (
+            <Combobox.Option value={option as string}>{option as string}</Combobox.Option>
+          )}
+        </Combobox.Options>
+      </Combobox>
+    )
+  }
+
+  it(
+    'should only render a window of the options',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getComboboxButton())
+
+      assertCombobox({ state: ComboboxState.Visible })
+
+      let options = getComboboxOptions()
+      expect(options.length).toBeGreaterThan(0)
+      expect(options.length).toBeLessThan(people.length)
+
+      // The options know their position in the full list
+      expect(options[0]).toHaveAttribute('aria-setsize', '1000')
+      expect(options[0]).toHaveAttribute('aria-posinset', '1')
+    })
+  )
+
+  it(
+    'should be possible to navigate to options that are not rendered yet',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getComboboxInput())
+      await press(Keys.ArrowDown)
+
+      // The first option should be active
+      assertActiveComboboxOption(getByText('Person 1'))
+
+      // Go to the last option
+      await press(Keys.End)
+
+      // The last option should be rendered and active
+      assertActiveComboboxOption(getByText('Person 1000'))
+      expect(getByText('Person 1')).toBe(null)
+
+      // Go back to the first option
+      await press(Keys.Home)
+      assertActiveComboboxOption(getByText('Person 1'))
+    })
+  )
+
+  it(
+    'should skip disabled options',
+    suppressConsoleLogs(async () => {
+      render(<Example disabled={(person) => person === 'Person 2'} />)
+
+      await focus(getComboboxInput())
+      await press(Keys.ArrowDown)
+      assertActiveComboboxOption(getByText('Person 1'))
+
+      await press(Keys.ArrowDown)
+      assertActiveComboboxOption(getByText('Person 3'))
+
+      expect(getByText('Person 2')).toHaveAttribute('aria-disabled', 'true')
+    })
+  )
+
+  it(
+    'should be possible to select an option',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await press(Keys.ArrowDown)
+      await press(Keys.End)
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenNthCalledWith(1, 'Person 1000')
+      assertComboboxList({ state: ComboboxState.InvisibleUnmounted })
+
+      // Re-opening the combobox should make the selected option active
+      await click(getComboboxButton())
+      assertActiveComboboxOption(getByText('Person 1000'))
+
+      // Selecting an option by clicking it should work as well
+      await press(Keys.Home)
+      await click(getByText('Person 1'))
+      expect(handleChange).toHaveBeenNthCalledWith(2, 'Person 1')
+    })
+  )
+
+  it(
+    'should not be possible to select a disabled option with the keyboard',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      let { rerender } = render(<Example onChange={handleChange} />)
+
+      await focus(getComboboxInput())
+      await press(Keys.ArrowDown)
+      await press(Keys.End)
+      await press(Keys.Enter)
+      expect(handleChange).toHaveBeenCalledTimes(1)
+
+      // The selected option becomes disabled, so it can't be the active option anymore
+      rerender(<Example onChange={handleChange} disabled={(person) => person === 'Person 1000'} />)
+      await click(getComboboxButton())
+      await press(Keys.Enter)
+
+      expect(handleChange).not.toHaveBeenNthCalledWith(2, 'Person 1000')
+    })
+  )
+})
+
 describe('Form compatibility', () => {
+  it('should not be possible to submit a form when a required combobox has no value', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Combobox name="delivery" required>
+            <Combobox.Input onChange={NOOP} />
+            <Combobox.Button>Trigger</Combobox.Button>
+            <Combobox.Options>
+              <Combobox.Option value="pickup">Pickup</Combobox.Option>
+              <Combobox.Option value="home-delivery">Home delivery</Combobox.Option>
+            </Combobox.Options>
+          </Combobox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Verify that the form is invalid
+    act(() => void expect(document.querySelector('form')!.reportValidity()).toBe(false))
+
+    // Verify that the control is marked as invalid
+    expect(getComboboxInput()).toHaveAttribute('aria-invalid', 'true')
+    expect(getComboboxInput()).toHaveAttribute(
+      'data-headlessui-state',
+      expect.stringContaining('invalid')
+    )
+
+    // Verify that the input received focus
+    assertActiveElement(getComboboxInput())
+
+    // Choose pickup
+    await click(getComboboxButton())
+    await click(getByText('Pickup'))
+    expect(getComboboxInput()).not.toHaveAttribute('aria-invalid')
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+  })
+
+  it('should reset the combobox to its default value when the form is reset', async () => {
+    let submits = jest.fn()
+    let handleChange = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Combobox name="delivery" defaultValue="pickup" onChange={handleChange}>
+            <Combobox.Input onChange={NOOP} />
+            <Combobox.Button>Trigger</Combobox.Button>
+            <Combobox.Options>
+              <Combobox.Option value="pickup">Pickup</Combobox.Option>
+              <Combobox.Option value="home-delivery">Home delivery</Combobox.Option>
+            </Combobox.Options>
+          </Combobox>
+          <button type="reset">Reset</button>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Choose home delivery
+    await click(getComboboxButton())
+    await click(getByText('Home delivery'))
+    expect(getComboboxInput()).toHaveValue('home-delivery')
+
+    // Reset the form
+    await click(getByText('Reset'))
+
+    // Verify that the default value has been restored
+    expect(handleChange).lastCalledWith('pickup')
+    expect(getComboboxInput()).toHaveValue('pickup')
+
+    // Submit the form
+    await click(getByText('Submit'))
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+  })
+
+  it('should be possible to submit a form using an uncontrolled combobox', async () => {
+    let submits = jest.fn()
+    let handleChange = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Combobox defaultValue="pickup" onChange={handleChange} name="delivery">
+            <Combobox.Input onChange={NOOP} />
+            <Combobox.Button>Trigger</Combobox.Button>
+            <Combobox.Options>
+              <Combobox.Option value="pickup">Pickup</Combobox.Option>
+              <Combobox.Option value="home-delivery">Home delivery</Combobox.Option>
+              <Combobox.Option value="dine-in">Dine in</Combobox.Option>
+            </Combobox.Options>
+          </Combobox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted with the default value
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+
+    // Open combobox
+    await click(getComboboxButton())
+
+    // Choose home delivery
+    await click(getByText('Home delivery'))
+
+    // Verify that the change has been emitted
+    expect(handleChange).toHaveBeenNthCalledWith(1, 'home-delivery')
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted with the new value
+    expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+  })
+
   it('should be possible to submit a form with a value', async () => {
     let submits = jest.fn()
 
@@ -5083,3 +6087,164 @@ describe('Form compatibility', () => {
     ])
   })
 })
+
+describe('Controlled open state', () => {
+  it(
+    'should be possible to open the Combobox by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Combobox value="a" onChange={NOOP} defaultOpen>
+          <Combobox.Input onChange={NOOP} />
+          <Combobox.Button>Trigger</Combobox.Button>
+          <Combobox.Options>
+            <Combobox.Option value="a">Option A</Combobox.Option>
+          </Combobox.Options>
+        </Combobox>
+      )
+
+      assertComboboxButton({ state: ComboboxState.Visible })
+      assertComboboxList({ state: ComboboxState.Visible })
+    })
+  )
+
+  it(
+    'should call `onOpenChange` with the reason the Combobox opened or closed',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      function Example() {
+        let [value, setValue] = useState('a')
+
+        return (
+          <Combobox value={value} onChange={setValue} onOpenChange={handleOpenChange}>
+            {({ reason }) => (
+              <>
+                <Combobox.Input onChange={NOOP} />
+                <Combobox.Button>{reason ?? 'none'}</Combobox.Button>
+                <Combobox.Options>
+                  <Combobox.Option value="a">Option A</Combobox.Option>
+                  <Combobox.Option value="b">Option B</Combobox.Option>
+                </Combobox.Options>
+              </>
+            )}
+          </Combobox>
+        )
+      }
+
+      render(<Example />)
+      expect(getComboboxButton()).toHaveTextContent('none')
+
+      await click(getComboboxButton())
+      expect(getComboboxButton()).toHaveTextContent('pointer')
+
+      await click(getComboboxOptions()[1])
+      expect(getComboboxButton()).toHaveTextContent('selection')
+
+      await type(word('Opt'), getComboboxInput())
+      expect(getComboboxButton()).toHaveTextContent('keyboard')
+
+      await press(Keys.Escape)
+      await click(getComboboxButton())
+      await click(document.body)
+      expect(getComboboxButton()).toHaveTextContent('outside-click')
+
+      expect(handleOpenChange.mock.calls).toEqual([
+        [true, 'pointer'],
+        [false, 'selection'],
+        [true, 'keyboard'],
+        [false, 'escape'],
+        [true, 'pointer'],
+        [false, 'outside-click'],
+      ])
+    })
+  )
+
+  it(
+    'should only open or close the Combobox when the `open` prop changes',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(false)
+
+        return (
+          <>
+            <Combobox value="a" onChange={NOOP} open={open} onOpenChange={handleOpenChange}>
+              <Combobox.Input onChange={NOOP} />
+              <Combobox.Button>Trigger</Combobox.Button>
+              <Combobox.Options>
+                <Combobox.Option value="a">Option A</Combobox.Option>
+              </Combobox.Options>
+            </Combobox>
+            <button onClick={() => setOpen((open) => !open)}>Toggle</button>
+          </>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getComboboxButton())
+      expect(handleOpenChange).toHaveBeenLastCalledWith(true, 'pointer')
+      assertComboboxList({ state: ComboboxState.InvisibleUnmounted })
+
+      await click(getByText('Toggle'))
+      assertComboboxList({ state: ComboboxState.Visible })
+
+      await click(getByText('Toggle'))
+      assertComboboxList({ state: ComboboxState.InvisibleUnmounted })
+    })
+  )
+})
+
+describe('Anchor', () => {
+  it(
+    'should position the Combobox.Options against the Combobox.Input',
+    suppressConsoleLogs(async () => {
+      render(
+        <Combobox value="a" onChange={NOOP}>
+          <Combobox.Input onChange={NOOP} />
+          <Combobox.Button>Trigger</Combobox.Button>
+          <Combobox.Options anchor="bottom start">
+            <Combobox.Option value="a">Option A</Combobox.Option>
+          </Combobox.Options>
+        </Combobox>
+      )
+
+      jest.spyOn(getComboboxInput()!, 'getBoundingClientRect').mockReturnValue({
+        left: 100,
+        top: 50,
+        right: 300,
+        bottom: 70,
+        width: 200,
+        height: 20,
+      } as DOMRect)
+
+      await click(getComboboxButton())
+      expect(getCombobox()).toHaveAttribute('data-anchor', 'bottom start')
+      expect(getCombobox()).toHaveStyle({ left: '100px', top: '70px' })
+    })
+  )
+})
+
+describe('Modal', () => {
+  it(
+    'should lock the scroll of the page while modal Combobox.Options are open',
+    suppressConsoleLogs(async () => {
+      render(
+        <Combobox value="a" onChange={NOOP}>
+          <Combobox.Input onChange={NOOP} />
+          <Combobox.Button>Trigger</Combobox.Button>
+          <Combobox.Options modal>
+            <Combobox.Option value="a">Option A</Combobox.Option>
+          </Combobox.Options>
+        </Combobox>
+      )
+
+      expect(document.documentElement.style.overflow).toBe('')
+
+      await click(getComboboxButton())
+      expect(document.documentElement.style.overflow).toBe('hidden')
+
+      await press(Keys.Escape)
+      expect(document.documentElement.style.overflow).toBe('')
+    })
+  )
+})
@@ -1,32 +1,43 @@
 import React, {
   Fragment,
+  cloneElement,
   createContext,
   createRef,
   useCallback,
   useContext,
+  useEffect,
   useMemo,
   useReducer,
   useRef,
+  useState,
 
   // Types
   ElementType,
   KeyboardEvent as ReactKeyboardEvent,
   MouseEvent as ReactMouseEvent,
   MutableRefObject,
+  ReactElement,
   Ref,
 } from 'react'
 import { Props } from '../../types'
 
 import { useComputed } from '../../hooks/use-computed'
+import { useControllable } from '../../hooks/use-controllable'
 import { useDisposables } from '../../hooks/use-disposables'
 import { useEvent } from '../../hooks/use-event'
 import { useId } from '../../hooks/use-id'
 import { useIsoMorphicEffect } from '../../hooks/use-iso-morphic-effect'
 import { useLatestValue } from '../../hooks/use-latest-value'
+import { useOpenChange, OpenChangeReason } from '../../hooks/use-open-change'
+import { useAnchor } from '../../hooks/use-anchor'
+import { useOwnerDocument } from '../../hooks/use-owner'
+import { useScrollLock } from '../../hooks/use-scroll-lock'
 import { useOutsideClick } from '../../hooks/use-outside-click'
+import { LayerProvider } from '../../hooks/use-layer'
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { useSyncRefs } from '../../hooks/use-sync-refs'
 import { useTreeWalker } from '../../hooks/use-tree-walker'
+import { useVirtualizer } from '../../hooks/use-virtualizer'
 
 import { calculateActiveIndex, Focus } from '../../utils/calculate-active-index'
 import { disposables } from '../../utils/disposables'
@@ -34,10 +45,20 @@ import { forwardRefWithAs, render, compact, PropsForFeatures, Features } from '.
 import { isDisabledReactIssue7711 } from '../../utils/bugs'
 import { match } from '../../utils/match'
 import { objectToFormEntries } from '../../utils/form'
-import { FocusableMode, isFocusableElement, sortByDomNode } from '../../utils/focus-management'
+import { AnchorProps } from '../../utils/anchor'
+import {
+  FocusableMode,
+  isFocusableElement,
+  sortByDomNode,
+  focusIn,
+  Focus as FocusManagementFocus,
+  FocusResult,
+} from '../../utils/focus-management'
 
 import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
+import { FormControl, useInvalid } from '../../internal/form-control'
 import { useOpenClosed, State, OpenClosedProvider } from '../../internal/open-closed'
+import { useGroup, useGroupLabel, useGroupValue } from '../../internal/group'
 
 import { Keys } from '../keyboard'
 
@@ -67,6 +88,7 @@ interface StateDefinition<T> {
   dataRef: MutableRefObject<_Data>
 
   comboboxState: ComboboxState
+  openChangeReason: OpenChangeReason | null
 
   options: { id: string; dataRef: ComboboxOptionDataRef<T> }[]
   activeOptionIndex: number | null
@@ -113,9 +135,15 @@ function adjustOrderedState<T>(
 }
 
 type Actions<T> =
-  | { type: ActionTypes.CloseCombobox }
-  | { type: ActionTypes.OpenCombobox }
+  | { type: ActionTypes.CloseCombobox; reason: OpenChangeReason | null }
+  | { type: ActionTypes.OpenCombobox; reason: OpenChangeReason | null }
   | { type: ActionTypes.GoToOption; focus: Focus.Specific; id: string; trigger?: ActivationTrigger }
+  | {
+      type: ActionTypes.GoToOption
+      focus: Focus.Specific
+      idx: number
+      trigger?: ActivationTrigger
+    }
   | {
       type: ActionTypes.GoToOption
       focus: Exclude<Focus, Focus.Specific>
@@ -130,25 +158,37 @@ let reducers: {
     action: Extract<Actions<T>, { type: P }>
   ) => StateDefinition<T>
 } = {
-  [ActionTypes.CloseCombobox](state) {
+  [ActionTypes.CloseCombobox](state, action) {
     if (state.dataRef.current.disabled) return state
     if (state.comboboxState === ComboboxState.Closed) return state
-    return { ...state, activeOptionIndex: null, comboboxState: ComboboxState.Closed }
+    return {
+      ...state,
+      activeOptionIndex: null,
+      comboboxState: ComboboxState.Closed,
+      openChangeReason: action.reason,
+    }
   },
-  [ActionTypes.OpenCombobox](state) {
+  [ActionTypes.OpenCombobox](state, action) {
     if (state.dataRef.current.disabled) return state
     if (state.comboboxState === ComboboxState.Open) return state
 
     // Check if we have a selected value that we can make active
     let activeOptionIndex = state.activeOptionIndex
-    let { isSelected } = state.dataRef.current
-    let optionIdx = state.options.findIndex((option) => isSelected(option.dataRef.current.value))
+    let { isSelected, virtual } = state.dataRef.current
+    let optionIdx = virtual
+      ? virtual.options.findIndex((option) => isSelected(option))
+      : state.options.findIndex((option) => isSelected(option.dataRef.current.value))
 
     if (optionIdx !== -1) {
       activeOptionIndex = optionIdx
     }
 
-    return { ...state, comboboxState: ComboboxState.Open, activeOptionIndex }
+    return {
+      ...state,
+      comboboxState: ComboboxState.Open,
+      activeOptionIndex,
+      openChangeReason: action.reason,
+    }
   },
   [ActionTypes.GoToOption](state, action) {
     if (state.dataRef.current.disabled) return state
@@ -160,6 +200,35 @@ let reducers: {
       return state
     }
 
+    // Virtual options are not registered, so we can skip sorting them and work with the indexes of
+    // the provided data directly.
+    let { virtual } = state.dataRef.current
+    if (virtual) {
+      let activeOptionIndex =
+        action.focus === Focus.Specific
+          ? 'idx' in action
+            ? action.idx
+            : state.activeOptionIndex
+          : calculateActiveIndex(action, {
+              resolveItems: () => virtual!.options,
+              resolveActiveIndex: () =>
+                state.activeOptionIndex ??
+                virtual!.options.findIndex((option) => !virtual!.disabled(option)),
+              resolveId: () => {
+                throw new Error('Virtual options should be focused by their index.')
+              },
+              resolveDisabled: virtual.disabled,
+            })
+
+      return {
+        ...state,
+        activeOptionIndex,
+        activationTrigger: action.trigger ?? ActivationTrigger.Other,
+      }
+    }
+
+    if ('idx' in action) return state
+
     let adjustedState = adjustOrderedState(state)
 
     // It's possible that the activeOptionIndex is set to `null` internally, but
@@ -228,14 +297,20 @@ let reducers: {
 }
 
 let ComboboxActionsContext = createContext<{
-  openCombobox(): void
-  closeCombobox(): void
+  openCombobox(reason: OpenChangeReason): void
+  closeCombobox(reason: OpenChangeReason): void
   registerOption(id: string, dataRef: ComboboxOptionDataRef<unknown>): () => void
-  goToOption(focus: Focus.Specific, id: string, trigger?: ActivationTrigger): void
-  goToOption(focus: Focus, id?: string, trigger?: ActivationTrigger): void
-  selectOption(id: string): void
+  // Virtual options are referenced by their index instead of their id.
+  goToOption(focus: Focus.Specific, id: string | number, trigger?: ActivationTrigger): void
+  goToOption(focus: Focus, id?: string | number, trigger?: ActivationTrigger): void
+  selectOption(id: string | number): void
   selectActiveOption(): void
+  selectCustomValue(): boolean
   onChange(value: unknown): void
+  changeQuery(query: string): void
+  removeOption(value: unknown): void
+  registerSelectedOption(domRef: MutableRefObject<HTMLElement | null>): () => void
+  focusSelectedOption(focus: FocusManagementFocus): FocusResult
 } | null>(null)
 ComboboxActionsContext.displayName = 'ComboboxActionsContext'
 
@@ -260,6 +335,14 @@ let ComboboxDataContext = createContext<
       compare(a: unknown, z: unknown): boolean
       isSelected(value: unknown): boolean
       __demoMode: boolean
+      loading: boolean
+      error: unknown
+      removed: unknown
+      invalid: boolean
+      virtual: {
+        options: unknown[]
+        disabled(value: unknown): boolean
+      } | null
 
       inputPropsRef: MutableRefObject<{
         displayValue?(item: unknown): string
@@ -289,18 +372,51 @@ function useData(component: string) {
 }
 type _Data = ReturnType<typeof useData>
 
+function resolveOptionsCount(data: _Data) {
+  return data.virtual ? data.virtual.options.length : data.options.length
+}
+
+function resolveActiveDescendant(data: _Data) {
+  if (data.activeOptionIndex === null) return undefined
+  if (data.virtual) return resolveVirtualOptionId(data, data.activeOptionIndex)
+  return data.options[data.activeOptionIndex]?.id
+}
+
+// Virtual options can be referenced before they are rendered, therefore their ids are derived from
+// the input (which is always rendered) instead.
+function resolveVirtualOptionId(data: _Data, idx: number) {
+  return `${data.inputRef.current?.id ?? 'headlessui-combobox-input'}-option-${idx}`
+}
+
 function stateReducer<T>(state: StateDefinition<T>, action: Actions<T>) {
   return match(action.type, reducers, state, action)
 }
 
+function resolveOpenChange<T>(action: Actions<T>) {
+  if (action.type === ActionTypes.OpenCombobox) return { open: true, reason: action.reason }
+  if (action.type === ActionTypes.CloseCombobox) return { open: false, reason: action.reason }
+  return null
+}
+
+function createOpenChangeAction<T>(open: boolean, reason: OpenChangeReason | null): Actions<T> {
+  return open
+    ? { type: ActionTypes.OpenCombobox, reason }
+    : { type: ActionTypes.CloseCombobox, reason }
+}
+
 // ---
 
 let DEFAULT_COMBOBOX_TAG = Fragment
 interface ComboboxRenderPropArg<T> {
   open: boolean
+  reason: OpenChangeReason | null
   disabled: boolean
+  invalid: boolean
   activeIndex: number | null
   activeOption: T | null
+  loading: boolean
+  error: unknown
+  empty: boolean
 }
 
 let ComboboxRoot = forwardRefWithAs(function Combobox<
@@ -311,38 +427,87 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
   props: Props<
     TTag,
     ComboboxRenderPropArg<TType>,
-    'value' | 'onChange' | 'disabled' | 'name' | 'nullable' | 'multiple' | 'by'
+    | 'value'
+    | 'defaultValue'
+    | 'onChange'
+    | 'disabled'
+    | 'name'
+    | 'nullable'
+    | 'multiple'
+    | 'by'
+    | 'virtual'
+    | 'required'
+    | 'validationMessage'
+    | 'onQueryChange'
+    | 'createValue'
+    | 'open'
+    | 'defaultOpen'
+    | 'onOpenChange'
   > & {
-    value: TType
-    onChange(value: TType): void
+    value?: TType
+    defaultValue?: TType
+    onChange?(value: TType): void
+    onQueryChange?(query: string, options: { signal: AbortSignal }): void | Promise<unknown>
+    createValue?(query: string): TActualType
     by?: (keyof TType & string) | ((a: TType, z: TType) => boolean)
     disabled?: boolean
     __demoMode?: boolean
     name?: string
+    required?: boolean
+    validationMessage?: string
     nullable?: boolean
     multiple?: boolean
+    virtual?: {
+      options: TActualType[]
+      disabled?(value: TActualType): boolean
+    } | null
+    open?: boolean
+    defaultOpen?: boolean
+    onOpenChange?(open: boolean, reason: OpenChangeReason | null): void
   },
   ref: Ref<TTag>
 ) {
   let {
     name,
-    value,
-    onChange: theirOnChange,
+    value: controlledValue,
+    defaultValue,
+    onChange: controlledOnChange,
     by = (a, z) => a === z,
     disabled = false,
     __demoMode = false,
     nullable = false,
     multiple = false,
+    virtual = null,
+    required = false,
+    validationMessage,
+    onQueryChange,
+    createValue,
+    open: controlledOpen,
+    defaultOpen = false,
+    onOpenChange,
     ...theirProps
   } = props
+  let [value = (multiple ? [] : undefined) as unknown as TType, theirOnChange] =
+    useControllable<TType>(controlledValue, controlledOnChange, defaultValue)
+  let initialValue = useRef(value)
 
-  let [state, dispatch] = useReducer(stateReducer, {
+  let [state, internalDispatch] = useReducer(stateReducer, {
     dataRef: createRef(),
-    comboboxState: __demoMode ? ComboboxState.Open : ComboboxState.Closed,
+    comboboxState:
+      __demoMode || (controlledOpen ?? defaultOpen) ? ComboboxState.Open : ComboboxState.Closed,
+    openChangeReason: null,
     options: [],
     activeOptionIndex: null,
     activationTrigger: ActivationTrigger.Other,
   } as StateDefinition<TType>)
+  let dispatch = useOpenChange<Actions<TType>>({
+    open: state.comboboxState === ComboboxState.Open,
+    controlledOpen,
+    onOpenChange,
+    dispatch: internalDispatch,
+    resolveOpenChange,
+    createAction: createOpenChangeAction,
+  })
 
   let defaultToFirstOption = useRef(false)
 
@@ -354,6 +519,14 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
   let buttonRef = useRef<_Data['buttonRef']['current']>(null)
   let optionsRef = useRef<_Data['optionsRef']['current']>(null)
 
+  let filled = multiple ? (value as unknown as unknown[]).length > 0 : value != null
+  let [invalid, markInvalid] = useInvalid({ filled, required, validationMessage })
+
+  let [loading, setLoading] = useState(false)
+  let [error, setError] = useState<unknown>(null)
+  let [removed, setRemoved] = useState<unknown>(null)
+  let queryController = useRef<AbortController | null>(null)
+
   let compare = useEvent(
     typeof by === 'string'
       ? (a: TType, z: TType) => {
@@ -373,6 +546,11 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
     [value]
   )
 
+  let virtualOptions = virtual?.options
+  let isVirtualOptionDisabled = useEvent((value: unknown) => {
+    return virtual?.disabled?.(value as TActualType) ?? false
+  })
+
   let data = useMemo<_Data>(
     () => ({
       ...state,
@@ -385,7 +563,34 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
       value,
       disabled,
       mode: multiple ? ValueMode.Multi : ValueMode.Single,
+      virtual: virtualOptions
+        ? { options: virtualOptions, disabled: isVirtualOptionDisabled }
+        : null,
       get activeOptionIndex() {
+        if (virtualOptions) {
+          // The options could have been changed (e.g.: filtered), so the active index could be out of
+          // bounds.
+          if (
+            state.activeOptionIndex !== null &&
+            state.activeOptionIndex < virtualOptions.length &&
+            !isVirtualOptionDisabled(virtualOptions[state.activeOptionIndex])
+          ) {
+            return state.activeOptionIndex
+          }
+
+          if (defaultToFirstOption.current) {
+            let localActiveOptionIndex = virtualOptions.findIndex(
+              (option) => !isVirtualOptionDisabled(option)
+            )
+
+            if (localActiveOptionIndex !== -1) {
+              return localActiveOptionIndex
+            }
+          }
+
+          return null
+        }
+
         if (
           defaultToFirstOption.current &&
           state.activeOptionIndex === null &&
@@ -406,8 +611,24 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
       isSelected,
       nullable,
       __demoMode,
+      loading,
+      error,
+      removed,
+      invalid,
     }),
-    [value, disabled, multiple, nullable, __demoMode, state]
+    [
+      value,
+      disabled,
+      multiple,
+      nullable,
+      __demoMode,
+      state,
+      virtualOptions,
+      loading,
+      error,
+      removed,
+      invalid,
+    ]
   )
 
   useIsoMorphicEffect(() => {
@@ -415,39 +636,59 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
   }, [data])
 
   // Handle outside click
-  useOutsideClick(
+  let [layer] = useOutsideClick(
     [data.buttonRef, data.inputRef, data.optionsRef],
-    () => dispatch({ type: ActionTypes.CloseCombobox }),
+    () => dispatch({ type: ActionTypes.CloseCombobox, reason: 'outside-click' }),
     data.comboboxState === ComboboxState.Open
   )
 
   let slot = useMemo<ComboboxRenderPropArg<TType>>(
     () => ({
       open: data.comboboxState === ComboboxState.Open,
+      reason: data.openChangeReason,
       disabled,
+      invalid,
       activeIndex: data.activeOptionIndex,
       activeOption:
         data.activeOptionIndex === null
           ? null
+          : data.virtual
+          ? (data.virtual.options[data.activeOptionIndex] as TType)
           : (data.options[data.activeOptionIndex].dataRef.current.value as TType),
+      loading: data.loading,
+      error: data.error,
+      empty: !data.loading && resolveOptionsCount(data) === 0,
     }),
-    [data, disabled]
+    [data, disabled, invalid]
   )
 
-  let syncInputValue = useCallback(() => {
-    if (!data.inputRef.current) return
+  let resolveDisplayValue = useCallback(() => {
     let displayValue = inputPropsRef.current.displayValue
 
     if (typeof displayValue === 'function') {
-      data.inputRef.current.value = displayValue(value) ?? ''
+      return displayValue(value) ?? ''
     } else if (typeof value === 'string') {
-      data.inputRef.current.value = value
+      return value
     } else {
-      data.inputRef.current.value = ''
+      return ''
+    }
+  }, [value, inputPropsRef])
+
+  let syncInputValue = useCallback(() => {
+    if (!data.inputRef.current) return
+    data.inputRef.current.value = resolveDisplayValue()
+  }, [resolveDisplayValue, data.inputRef])
+
+  let selectOption = useEvent((id: string | number) => {
+    if (typeof id === 'number') {
+      if (!data.virtual || id >= data.virtual.options.length) return
+      if (data.virtual.disabled(data.virtual.options[id])) return
+
+      onChange(data.virtual.options[id])
+      syncInputValue()
+      return
     }
-  }, [value, data.inputRef, inputPropsRef])
 
-  let selectOption = useEvent((id: string) => {
     let option = data.options.find((item) => item.id === id)
     if (!option) return
 
@@ -456,7 +697,15 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
   })
 
   let selectActiveOption = useEvent(() => {
-    if (data.activeOptionIndex !== null) {
+    if (data.activeOptionIndex !== null && data.virtual) {
+      let idx = data.activeOptionIndex
+      if (data.virtual.disabled(data.virtual.options[idx])) return
+
+      onChange(data.virtual.options[idx])
+      syncInputValue()
+
+      dispatch({ type: ActionTypes.GoToOption, focus: Focus.Specific, idx })
+    } else if (data.activeOptionIndex !== null) {
       let { dataRef, id } = data.options[data.activeOptionIndex]
       onChange(dataRef.current.value)
       syncInputValue()
@@ -467,13 +716,65 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
     }
   })
 
-  let openCombobox = useEvent(() => {
-    dispatch({ type: ActionTypes.OpenCombobox })
+  // The label of an option, the way it would show up in the input when it is selected.
+  let resolveOptionLabel = (option: unknown, element: HTMLElement | null = null) => {
+    let displayValue = inputPropsRef.current.displayValue
+
+    // In multiple mode, the `displayValue` receives all selected values instead of a single one.
+    if (data.mode === ValueMode.Single && typeof displayValue === 'function') {
+      return displayValue(option) ?? ''
+    }
+    if (typeof option === 'string') return option
+    return element?.textContent ?? null
+  }
+
+  let resolveExistingOption = (query: string) => {
+    if (data.virtual) {
+      let { options, disabled } = data.virtual
+      let idx = options.findIndex(
+        (option) => !disabled(option) && resolveOptionLabel(option) === query
+      )
+      return idx === -1 ? null : { value: options[idx] }
+    }
+
+    let option = data.options.find(
+      ({ dataRef }) =>
+        !dataRef.current.disabled &&
+        resolveOptionLabel(dataRef.current.value, dataRef.current.domRef.current) === query
+    )
+    return option ? { value: option.dataRef.current.value } : null
+  }
+
+  let selectCustomValue = useEvent(() => {
+    if (!createValue) return false
+    if (!data.inputRef.current) return false
+
+    // Only commit text that the user typed, not the text we rendered for the current value.
+    let query = data.inputRef.current.value
+    if (query === '' || query === resolveDisplayValue()) return false
+
+    // A query that matches the label of an existing option selects that option instead, otherwise
+    // we would create a duplicate of it.
+    let existingOption = resolveExistingOption(query)
+    let customValue = existingOption ? existingOption.value : createValue(query)
+
+    // In multiple mode `onChange` toggles the value, so committing an existing value again would
+    // remove it instead.
+    if (data.mode === ValueMode.Single || !data.isSelected(customValue)) {
+      onChange(customValue)
+    }
+    syncInputValue()
+
+    return true
+  })
+
+  let openCombobox = useEvent((reason: OpenChangeReason) => {
+    dispatch({ type: ActionTypes.OpenCombobox, reason })
     defaultToFirstOption.current = true
   })
 
-  let closeCombobox = useEvent(() => {
-    dispatch({ type: ActionTypes.CloseCombobox })
+  let closeCombobox = useEvent((reason: OpenChangeReason) => {
+    dispatch({ type: ActionTypes.CloseCombobox, reason })
     defaultToFirstOption.current = false
   })
 
@@ -481,6 +782,10 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
     defaultToFirstOption.current = false
 
     if (focus === Focus.Specific) {
+      if (typeof id === 'number') {
+        return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Specific, idx: id, trigger })
+      }
+
       return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Specific, id: id!, trigger })
     }
 
@@ -512,15 +817,107 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
     })
   })
 
+  let changeQuery = useEvent((query: string) => {
+    // Results of a previous query are no longer relevant.
+    queryController.current?.abort()
+    queryController.current = null
+
+    setError(null)
+    if (!onQueryChange) return
+
+    let controller = new AbortController()
+    queryController.current = controller
+
+    let result = onQueryChange(query, { signal: controller.signal })
+    if (!result || typeof result.then !== 'function') {
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    result.then(
+      () => {
+        if (controller.signal.aborted) return
+        setLoading(false)
+      },
+      (error) => {
+        if (controller.signal.aborted) return
+        setLoading(false)
+        setError(error)
+      }
+    )
+  })
+
+  useEffect(() => () => queryController.current?.abort(), [])
+
+  // The removed option is exposed to the `Combobox.Status`, so that the removal can be announced.
+  // It's cleared again as soon as the value changes in any other way.
+  let isRemoving = useRef(false)
+  useEffect(() => {
+    if (isRemoving.current) {
+      isRemoving.current = false
+      return
+    }
+    setRemoved(null)
+  }, [value])
+
+  let removeOption = useEvent((value: unknown) => {
+    if (data.mode === ValueMode.Single && !compare(data.value as TType, value as TType)) return
+
+    isRemoving.current = true
+    setRemoved(value)
+
+    return match(data.mode, {
+      [ValueMode.Single]() {
+        return theirOnChange(null as unknown as TType)
+      },
+      [ValueMode.Multi]() {
+        return theirOnChange(
+          (data.value as unknown as TType[]).filter(
+            (option) => !compare(option, value as TType)
+          ) as unknown as TType
+        )
+      },
+    })
+  })
+
+  let selectedOptions = useRef<MutableRefObject<HTMLElement | null>[]>([])
+
+  let registerSelectedOption = useEvent((domRef: MutableRefObject<HTMLElement | null>) => {
+    selectedOptions.current.push(domRef)
+    return () => {
+      let idx = selectedOptions.current.indexOf(domRef)
+      if (idx !== -1) selectedOptions.current.splice(idx, 1)
+    }
+  })
+
+  // The selected options and the input form a single row that can be navigated with the arrow keys,
+  // with the input at the end.
+  let focusSelectedOption = useEvent((focus: FocusManagementFocus) => {
+    let elements = sortByDomNode(
+      selectedOptions.current
+        .map((domRef) => domRef.current)
+        .filter((element): element is HTMLElement => element !== null)
+    )
+    if (data.inputRef.current) elements.push(data.inputRef.current)
+
+    return focusIn(elements, focus, false)
+  })
+
   let actions = useMemo<_Actions>(
     () => ({
       onChange,
+      changeQuery,
       registerOption,
       goToOption,
       closeCombobox,
       openCombobox,
       selectActiveOption,
+      selectCustomValue,
       selectOption,
+      removeOption,
+      registerSelectedOption,
+      focusSelectedOption,
     }),
     []
   )
@@ -532,43 +929,63 @@ let ComboboxRoot = forwardRefWithAs(function Combobox<
 
   // Ensure that we update the inputRef if the value changes
   useIsoMorphicEffect(syncInputValue, [syncInputValue])
+
+  let handleInvalid = useEvent((shouldFocus: boolean) => {
+    markInvalid()
+    if (shouldFocus) data.inputRef.current?.focus()
+  })
+  let handleReset = useEvent(() => {
+    if (value === initialValue.current) return
+    theirOnChange(initialValue.current)
+  })
   let ourProps = ref === null ? {} : { ref }
 
   return (
-    <ComboboxActionsContext.Provider value={actions}>
-      <ComboboxDataContext.Provider value={data}>
-        <OpenClosedProvider
-          value={match(data.comboboxState, {
-            [ComboboxState.Open]: State.Open,
-            [ComboboxState.Closed]: State.Closed,
-          })}
-        >
-          {name != null &&
-            value != null &&
-            objectToFormEntries({ [name]: value }).map(([name, value]) => (
-              <Hidden
-                features={HiddenFeatures.Hidden}
-                {...compact({
-                  key: name,
-                  as: 'input',
-                  type: 'hidden',
-                  hidden: true,
-                  readOnly: true,
-                  name,
-                  value,
-                })}
+    <LayerProvider value={layer}>
+      <ComboboxActionsContext.Provider value={actions}>
+        <ComboboxDataContext.Provider value={data}>
+          <OpenClosedProvider
+            value={match(data.comboboxState, {
+              [ComboboxState.Open]: State.Open,
+              [ComboboxState.Closed]: State.Closed,
+            })}
+          >
+            {name != null &&
+              value != null &&
+              objectToFormEntries({ [name]: value }).map(([name, value]) => (
+                <Hidden
+                  features={HiddenFeatures.Hidden}
+                  {...compact({
+                    key: name,
+                    as: 'input',
+                    type: 'hidden',
+                    hidden: true,
+                    readOnly: true,
+                    name,
+                    value,
+                  })}
+                />
+              ))}
+            {(name != null || required) && (
+              <FormControl
+                filled={filled}
+                required={required}
+                validationMessage={validationMessage}
+                onInvalid={handleInvalid}
+                onReset={handleReset}
               />
-            ))}
-          {render({
-            ourProps,
-            theirProps,
-            slot,
-            defaultTag: DEFAULT_COMBOBOX_TAG,
-            name: 'Combobox',
-          })}
-        </OpenClosedProvider>
-      </ComboboxDataContext.Provider>
-    </ComboboxActionsContext.Provider>
+            )}
+            {render({
+              ourProps,
+              theirProps,
+              slot,
+              defaultTag: DEFAULT_COMBOBOX_TAG,
+              name: 'Combobox',
+            })}
+          </OpenClosedProvider>
+        </ComboboxDataContext.Provider>
+      </ComboboxActionsContext.Provider>
+    </LayerProvider>
   )
 })
 
@@ -578,10 +995,13 @@ let DEFAULT_INPUT_TAG = 'input' as const
 interface InputRenderPropArg {
   open: boolean
   disabled: boolean
+  invalid: boolean
 }
 type InputPropsWeControl =
   | 'id'
   | 'role'
+  | 'aria-autocomplete'
+  | 'aria-invalid'
   | 'aria-labelledby'
   | 'aria-expanded'
   | 'aria-activedescendant'
@@ -595,13 +1015,14 @@ let Input = forwardRefWithAs(function Input<
   // But today is not that day..
   TType = Parameters<typeof ComboboxRoot>[0]['value']
 >(
-  props: Props<TTag, InputRenderPropArg, InputPropsWeControl> & {
+  props: Props<TTag, InputRenderPropArg, InputPropsWeControl | 'inline'> & {
     displayValue?(item: TType): string
     onChange(event: React.ChangeEvent<HTMLInputElement>): void
+    inline?: boolean
   },
   ref: Ref<HTMLInputElement>
 ) {
-  let { value, onChange, displayValue, type = 'text', ...theirProps } = props
+  let { value, onChange, displayValue, inline = false, type = 'text', ...theirProps } = props
   let data = useData('Combobox.Input')
   let actions = useActions('Combobox.Input')
 
@@ -615,12 +1036,88 @@ let Input = forwardRefWithAs(function Input<
     inputPropsRef.current.displayValue = displayValue
   }, [displayValue, inputPropsRef])
 
+  // The text the user typed themselves, the inline completion is appended to this.
+  let typedQuery = useRef('')
+  let shouldComplete = useRef(false)
+  let isDeleting = useRef(false)
+
+  useIsoMorphicEffect(() => {
+    if (!inline) return
+    let input = data.inputRef.current
+    if (!input) return
+
+    if (data.comboboxState !== ComboboxState.Open) {
+      shouldComplete.current = false
+      return
+    }
+    if (!shouldComplete.current) return
+
+    let query = typedQuery.current
+    let text = resolveActiveOptionText()
+
+    if (
+      query === '' ||
+      text === null ||
+      text.length <= query.length ||
+      !text.toLowerCase().startsWith(query.toLowerCase())
+    ) {
+      // Remove a suggestion of a previously active option
+      if (input.value !== query) input.value = query
+      return
+    }
+
+    // Keep the casing of what the user typed, and select the suggested remainder so that typing
+    // continues to replace it.
+    input.value = query + text.slice(query.length)
+    input.setSelectionRange(query.length, input.value.length)
+  }, [inline, data.comboboxState, data.activeOptionIndex, data.options, data.virtual])
+
+  function resolveActiveOptionText() {
+    if (data.activeOptionIndex === null) return null
+
+    let option = data.virtual ? null : data.options[data.activeOptionIndex]
+    let value = data.virtual
+      ? data.virtual.options[data.activeOptionIndex]
+      : option?.dataRef.current.value
+    if (value === undefined) return null
+
+    if (typeof displayValue === 'function') return displayValue(value as TType) ?? null
+    if (typeof value === 'string') return value
+    return option?.dataRef.current.domRef.current?.textContent ?? null
+  }
+
   let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLInputElement>) => {
+    isDeleting.current = event.key === Keys.Backspace || event.key === Keys.Delete
+
     switch (event.key) {
       // Ref: https://www.w3.org/TR/wai-aria-practices-1.2/#keyboard-interaction-12
 
       case Keys.Backspace:
       case Keys.Delete:
+        if (inline) {
+          let input = event.currentTarget
+
+          // Remove the suggestion instead of the text that the user typed.
+          if (
+            input.value !== typedQuery.current &&
+            input.selectionStart === typedQuery.current.length &&
+            input.selectionEnd === input.value.length
+          ) {
+            event.preventDefault()
+            input.value = typedQuery.current
+            shouldComplete.current = false
+            return
+          }
+        }
+
+        // Move to the selected options, so that they can be removed from there.
+        if (data.mode === ValueMode.Multi && event.currentTarget.value === '') {
+          if (actions.focusSelectedOption(FocusManagementFocus.Previous) === FocusResult.Success) {
+            event.preventDefault()
+          }
+          return
+        }
+
         if (data.comboboxState !== ComboboxState.Open) return
         if (data.mode !== ValueMode.Single) return
         if (!data.nullable) return
@@ -644,13 +1141,14 @@ let Input = forwardRefWithAs(function Input<
         event.stopPropagation()
 
         if (data.activeOptionIndex === null) {
-          actions.closeCombobox()
+          if (actions.selectCustomValue() && data.mode === ValueMode.Multi) return
+          actions.closeCombobox('selection')
           return
         }
 
         actions.selectActiveOption()
         if (data.mode === ValueMode.Single) {
-          actions.closeCombobox()
+          actions.closeCombobox('selection')
         }
         break
 
@@ -662,7 +1160,7 @@ let Input = forwardRefWithAs(function Input<
             actions.goToOption(Focus.Next)
           },
           [ComboboxState.Closed]: () => {
-            actions.openCombobox()
+            actions.openCombobox('keyboard')
           },
         })
 
@@ -674,7 +1172,7 @@ let Input = forwardRefWithAs(function Input<
             actions.goToOption(Focus.Previous)
           },
           [ComboboxState.Closed]: () => {
-            actions.openCombobox()
+            actions.openCombobox('keyboard')
             d.nextFrame(() => {
               if (!data.value) {
                 actions.goToOption(Focus.Last)
@@ -695,27 +1193,55 @@ let Input = forwardRefWithAs(function Input<
         event.stopPropagation()
         return actions.goToOption(Focus.Last)
 
+      case Keys.ArrowLeft:
+        if (data.mode !== ValueMode.Multi) return
+        if (event.currentTarget.selectionStart !== 0) return
+        if (event.currentTarget.selectionEnd !== 0) return
+        if (actions.focusSelectedOption(FocusManagementFocus.Previous) === FocusResult.Success) {
+          event.preventDefault()
+        }
+        return
+
       case Keys.Escape:
         if (data.comboboxState !== ComboboxState.Open) return
         event.preventDefault()
         if (data.optionsRef.current && !data.optionsPropsRef.current.static) {
           event.stopPropagation()
         }
-        return actions.closeCombobox()
+        return actions.closeCombobox('escape')
 
       case Keys.Tab:
         if (data.comboboxState !== ComboboxState.Open) return
-        actions.selectActiveOption()
-        actions.closeCombobox()
+        if (data.activeOptionIndex === null) {
+          actions.selectCustomValue()
+        } else {
+          actions.selectActiveOption()
+        }
+        actions.closeCombobox('keyboard')
         break
     }
   })
 
   let handleChange = useEvent((event: React.ChangeEvent<HTMLInputElement>) => {
-    actions.openCombobox()
+    typedQuery.current = event.target.value
+    shouldComplete.current = !isDeleting.current
+
+    actions.openCombobox('keyboard')
+    actions.changeQuery(event.target.value)
     onChange?.(event)
   })
 
+  let handleBlur = useEvent((event: React.FocusEvent<HTMLInputElement>) => {
+    // Focus moving to an option or the button is part of interacting with the Combobox itself.
+    let relatedTarget = event.relatedTarget as HTMLElement | null
+    if (relatedTarget) {
+      if (data.optionsRef.current?.contains(relatedTarget)) return
+      if (data.buttonRef.current?.contains(relatedTarget)) return
+    }
+
+    actions.selectCustomValue()
+  })
+
   // TODO: Verify this. The spec says that, for the input/combobox, the label is the labelling element when present
   // Otherwise it's the ID of the non-label element
   let labelledby = useComputed(() => {
@@ -724,7 +1250,11 @@ let Input = forwardRefWithAs(function Input<
   }, [data.labelRef.current])
 
   let slot = useMemo<InputRenderPropArg>(
-    () => ({ open: data.comboboxState === ComboboxState.Open, disabled: data.disabled }),
+    () => ({
+      open: data.comboboxState === ComboboxState.Open,
+      disabled: data.disabled,
+      invalid: data.invalid,
+    }),
     [data]
   )
 
@@ -733,15 +1263,17 @@ let Input = forwardRefWithAs(function Input<
     id,
     role: 'combobox',
     type,
+    'aria-autocomplete': inline ? 'both' : 'list',
     'aria-controls': data.optionsRef.current?.id,
     'aria-expanded': data.disabled ? undefined : data.comboboxState === ComboboxState.Open,
-    'aria-activedescendant':
-      data.activeOptionIndex === null ? undefined : data.options[data.activeOptionIndex]?.id,
+    'aria-activedescendant': resolveActiveDescendant(data),
     'aria-multiselectable': data.mode === ValueMode.Multi ? true : undefined,
+    'aria-invalid': data.invalid ? true : undefined,
     'aria-labelledby': labelledby,
     disabled: data.disabled,
     onKeyDown: handleKeyDown,
     onChange: handleChange,
+    onBlur: handleBlur,
   }
 
   return render({
@@ -791,7 +1323,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
         event.preventDefault()
         event.stopPropagation()
         if (data.comboboxState === ComboboxState.Closed) {
-          actions.openCombobox()
+          actions.openCombobox('keyboard')
         }
         return d.nextFrame(() => data.inputRef.current?.focus({ preventScroll: true }))
 
@@ -799,7 +1331,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
         event.preventDefault()
         event.stopPropagation()
         if (data.comboboxState === ComboboxState.Closed) {
-          actions.openCombobox()
+          actions.openCombobox('keyboard')
           d.nextFrame(() => {
             if (!data.value) {
               actions.goToOption(Focus.Last)
@@ -814,7 +1346,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
         if (data.optionsRef.current && !data.optionsPropsRef.current.static) {
           event.stopPropagation()
         }
-        actions.closeCombobox()
+        actions.closeCombobox('escape')
         return d.nextFrame(() => data.inputRef.current?.focus({ preventScroll: true }))
 
       default:
@@ -825,10 +1357,10 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   let handleClick = useEvent((event: ReactMouseEvent) => {
     if (isDisabledReactIssue7711(event.currentTarget)) return event.preventDefault()
     if (data.comboboxState === ComboboxState.Open) {
-      actions.closeCombobox()
+      actions.closeCombobox('pointer')
     } else {
       event.preventDefault()
-      actions.openCombobox()
+      actions.openCombobox('pointer')
     }
 
     d.nextFrame(() => data.inputRef.current?.focus({ preventScroll: true }))
@@ -908,9 +1440,13 @@ let Label = forwardRefWithAs(function Label<TTag extends ElementType = typeof DE
 let DEFAULT_OPTIONS_TAG = 'ul' as const
 interface OptionsRenderPropArg {
   open: boolean
+  option?: unknown
+  loading: boolean
+  empty: boolean
 }
 type OptionsPropsWeControl =
   | 'aria-activedescendant'
+  | 'aria-busy'
   | 'aria-labelledby'
   | 'hold'
   | 'id'
@@ -923,13 +1459,15 @@ let OptionsRenderFeatures = Features.RenderStrategy | Features.Static
 let Options = forwardRefWithAs(function Options<
   TTag extends ElementType = typeof DEFAULT_OPTIONS_TAG
 >(
-  props: Props<TTag, OptionsRenderPropArg, OptionsPropsWeControl> &
+  props: Props<TTag, OptionsRenderPropArg, OptionsPropsWeControl | 'anchor' | 'modal'> &
     PropsForFeatures<typeof OptionsRenderFeatures> & {
       hold?: boolean
+      anchor?: AnchorProps
+      modal?: boolean
     },
   ref: Ref<HTMLUListElement>
 ) {
-  let { hold = false, ...theirProps } = props
+  let { hold = false, anchor: anchorProp, modal = false, ...theirProps } = props
   let data = useData('Combobox.Options')
 
   let optionsRef = useSyncRefs(data.optionsRef, ref)
@@ -945,6 +1483,17 @@ let Options = forwardRefWithAs(function Options<
     return data.comboboxState === ComboboxState.Open
   })()
 
+  let anchor = useAnchor({
+    anchor: anchorProp,
+    enabled: visible,
+    referenceRef: data.inputRef,
+    floatingRef: data.optionsRef,
+  })
+
+  // Modal Combobox.Options lock the scroll of the page, but can still scroll themselves
+  let ownerDocument = useOwnerDocument(data.optionsRef)
+  useScrollLock(ownerDocument, visible && modal, () => [data.optionsRef.current])
+
   useIsoMorphicEffect(() => {
     data.optionsPropsRef.current.static = props.static ?? false
   }, [data.optionsPropsRef, props.static])
@@ -971,16 +1520,31 @@ let Options = forwardRefWithAs(function Options<
   )
 
   let slot = useMemo<OptionsRenderPropArg>(
-    () => ({ open: data.comboboxState === ComboboxState.Open }),
+    () => ({
+      open: data.comboboxState === ComboboxState.Open,
+      loading: data.loading,
+      empty: !data.loading && resolveOptionsCount(data) === 0,
+    }),
     [data]
   )
   let ourProps = {
-    'aria-activedescendant':
-      data.activeOptionIndex === null ? undefined : data.options[data.activeOptionIndex]?.id,
+    'aria-activedescendant': resolveActiveDescendant(data),
+    'aria-busy': data.loading ? true : undefined,
     'aria-labelledby': labelledby,
+    'data-anchor': anchor.placement,
     role: 'listbox',
     id,
+    style: anchor.style ? { ...anchor.style, ...theirProps.style } : theirProps.style,
     ref: optionsRef,
+    ...(data.virtual
+      ? {
+          children: (
+            <VirtualProvider slot={slot}>
+              {props.children as (bag: OptionsRenderPropArg) => ReactElement}
+            </VirtualProvider>
+          ),
+        }
+      : {}),
   }
 
   return render({
@@ -996,11 +1560,178 @@ let Options = forwardRefWithAs(function Options<
 
 // ---
 
+let DEFAULT_STATUS_TAG = 'div' as const
+interface StatusRenderPropArg {
+  open: boolean
+  loading: boolean
+  error: unknown
+  empty: boolean
+  count: number
+  value: unknown
+  removed: unknown
+}
+type StatusPropsWeControl = 'role' | 'aria-live' | 'aria-atomic'
+
+let Status = forwardRefWithAs(function Status<TTag extends ElementType = typeof DEFAULT_STATUS_TAG>(
+  props: Props<TTag, StatusRenderPropArg, StatusPropsWeControl>,
+  ref: Ref<HTMLElement>
+) {
+  let data = useData('Combobox.Status')
+
+  let count = resolveOptionsCount(data)
+  let slot = useMemo<StatusRenderPropArg>(
+    () => ({
+      open: data.comboboxState === ComboboxState.Open,
+      loading: data.loading,
+      error: data.error,
+      empty: !data.loading && count === 0,
+      count,
+      value: data.value,
+      removed: data.removed,
+    }),
+    [data, count]
+  )
+
+  let theirProps = props
+  let ourProps = { ref, role: 'status', 'aria-live': 'polite', 'aria-atomic': true }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_STATUS_TAG,
+    name: 'Combobox.Status',
+  })
+})
+
+// ---
+
+let DEFAULT_GROUP_TAG = 'div' as const
+interface GroupRenderPropArg {}
+type GroupPropsWeControl = 'role' | 'aria-labelledby'
+
+let Group = forwardRefWithAs(function Group<TTag extends ElementType = typeof DEFAULT_GROUP_TAG>(
+  props: Props<TTag, GroupRenderPropArg, GroupPropsWeControl | 'value'> & {
+    value?: unknown
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { value, ...theirProps } = props
+  useData('Combobox.Group')
+
+  let [groupProps, GroupProvider] = useGroup()
+
+  let slot = useMemo<GroupRenderPropArg>(() => ({}), [])
+  let ourProps = { ref, ...groupProps }
+
+  return (
+    <GroupProvider value={value}>
+      {render({
+        ourProps,
+        theirProps,
+        slot,
+        defaultTag: DEFAULT_GROUP_TAG,
+        name: 'Combobox.Group',
+      })}
+    </GroupProvider>
+  )
+})
+
+// ---
+
+let DEFAULT_GROUP_LABEL_TAG = 'div' as const
+interface GroupLabelRenderPropArg {}
+type GroupLabelPropsWeControl = 'id' | 'role'
+
+let GroupLabel = forwardRefWithAs(function GroupLabel<
+  TTag extends ElementType = typeof DEFAULT_GROUP_LABEL_TAG
+>(props: Props<TTag, GroupLabelRenderPropArg, GroupLabelPropsWeControl>, ref: Ref<HTMLElement>) {
+  let labelProps = useGroupLabel('Combobox.GroupLabel', 'Combobox.Group', 'combobox-group-label')
+
+  let slot = useMemo<GroupLabelRenderPropArg>(() => ({}), [])
+  let theirProps = props
+  let ourProps = { ref, ...labelProps }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_GROUP_LABEL_TAG,
+    name: 'Combobox.GroupLabel',
+  })
+})
+
+// ---
+
+let VirtualContext = createContext<{
+  index: number
+  id: string
+  measure(element: HTMLElement | null): void
+} | null>(null)
+VirtualContext.displayName = 'VirtualContext'
+
+function VirtualProvider({
+  slot,
+  children,
+}: {
+  slot: OptionsRenderPropArg
+  children: (bag: OptionsRenderPropArg) => ReactElement
+}) {
+  let data = useData('Combobox.Options')
+  let { options } = data.virtual!
+
+  let { items, totalSize, measure, scrollToIndex } = useVirtualizer({
+    count: options.length,
+    scrollRef: data.optionsRef,
+    enabled: data.comboboxState === ComboboxState.Open,
+  })
+
+  // The active option is not guaranteed to be rendered, so we have to scroll to it ourselves
+  // instead of relying on the option to scroll itself into view.
+  useEffect(() => {
+    if (data.comboboxState !== ComboboxState.Open) return
+    if (data.activeOptionIndex === null) return
+    if (data.activationTrigger === ActivationTrigger.Pointer) return
+    scrollToIndex(data.activeOptionIndex)
+  }, [data.comboboxState, data.activeOptionIndex, data.activationTrigger, scrollToIndex])
+
+  return (
+    <div role="none" style={{ position: 'relative', width: '100%', height: totalSize }}>
+      {items.map(({ index, start }) => {
+        let option = children({ ...slot, option: options[index] })
+
+        return (
+          <VirtualContext.Provider
+            key={index}
+            value={{ index, id: resolveVirtualOptionId(data, index), measure }}
+          >
+            {cloneElement(option, {
+              'aria-setsize': options.length,
+              'aria-posinset': index + 1,
+              style: {
+                ...option.props.style,
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                transform: `translateY(${start}px)`,
+              },
+            })}
+          </VirtualContext.Provider>
+        )
+      })}
+    </div>
+  )
+}
+
+// ---
+
 let DEFAULT_OPTION_TAG = 'li' as const
 interface OptionRenderPropArg {
   active: boolean
   selected: boolean
   disabled: boolean
+  group: unknown
 }
 type ComboboxOptionPropsWeControl = 'id' | 'role' | 'tabIndex' | 'aria-disabled' | 'aria-selected'
 
@@ -1016,13 +1747,20 @@ let Option = forwardRefWithAs(function Option<
   },
   ref: Ref<HTMLLIElement>
 ) {
-  let { disabled = false, value, ...theirProps } = props
+  let { disabled: theirDisabled = false, value, ...theirProps } = props
   let data = useData('Combobox.Option')
   let actions = useActions('Combobox.Option')
-
-  let id = `headlessui-combobox-option-${useId()}`
-  let active =
-    data.activeOptionIndex !== null ? data.options[data.activeOptionIndex].id === id : false
+  let virtual = useContext(VirtualContext)
+  let group = useGroupValue()
+
+  let internalId = `headlessui-combobox-option-${useId()}`
+  let id = virtual?.id ?? internalId
+  let disabled = virtual ? theirDisabled || data.virtual!.disabled(value) : theirDisabled
+  let active = virtual
+    ? data.activeOptionIndex === virtual.index
+    : data.activeOptionIndex !== null
+    ? data.options[data.activeOptionIndex].id === id
+    : false
 
   let selected = data.isSelected(value)
   let internalOptionRef = useRef<HTMLLIElement | null>(null)
@@ -1032,10 +1770,13 @@ let Option = forwardRefWithAs(function Option<
     domRef: internalOptionRef,
     textValue: internalOptionRef.current?.textContent?.toLowerCase(),
   })
-  let optionRef = useSyncRefs(ref, internalOptionRef)
+  let optionRef = useSyncRefs(ref, internalOptionRef, virtual ? virtual.measure : null)
 
-  let select = useEvent(() => actions.selectOption(id))
-  useIsoMorphicEffect(() => actions.registerOption(id, bag), [bag, id])
+  let select = useEvent(() => actions.selectOption(virtual?.index ?? id))
+  useIsoMorphicEffect(() => {
+    if (virtual) return
+    return actions.registerOption(id, bag)
+  }, [bag, id])
 
   let enableScrollIntoView = useRef(data.__demoMode ? false : true)
   useIsoMorphicEffect(() => {
@@ -1050,6 +1791,7 @@ let Option = forwardRefWithAs(function Option<
   useIsoMorphicEffect(() => {
     if (data.comboboxState !== ComboboxState.Open) return
     if (!active) return
+    if (virtual) return
     if (!enableScrollIntoView.current) return
     if (data.activationTrigger === ActivationTrigger.Pointer) return
     let d = disposables()
@@ -1063,20 +1805,20 @@ let Option = forwardRefWithAs(function Option<
     if (disabled) return event.preventDefault()
     select()
     if (data.mode === ValueMode.Single) {
-      actions.closeCombobox()
+      actions.closeCombobox('selection')
       disposables().nextFrame(() => data.inputRef.current?.focus({ preventScroll: true }))
     }
   })
 
   let handleFocus = useEvent(() => {
     if (disabled) return actions.goToOption(Focus.Nothing)
-    actions.goToOption(Focus.Specific, id)
+    actions.goToOption(Focus.Specific, virtual?.index ?? id)
   })
 
   let handleMove = useEvent(() => {
     if (disabled) return
     if (active) return
-    actions.goToOption(Focus.Specific, id, ActivationTrigger.Pointer)
+    actions.goToOption(Focus.Specific, virtual?.index ?? id, ActivationTrigger.Pointer)
   })
 
   let handleLeave = useEvent(() => {
@@ -1087,8 +1829,8 @@ let Option = forwardRefWithAs(function Option<
   })
 
   let slot = useMemo<OptionRenderPropArg>(
-    () => ({ active, selected, disabled }),
-    [active, selected, disabled]
+    () => ({ active, selected, disabled, group }),
+    [active, selected, disabled, group]
   )
 
   let ourProps = {
@@ -1121,4 +1863,106 @@ let Option = forwardRefWithAs(function Option<
 
 // ---
 
-export let Combobox = Object.assign(ComboboxRoot, { Input, Button, Label, Options, Option })
+let DEFAULT_SELECTED_OPTION_TAG = 'button' as const
+interface SelectedOptionRenderPropArg {
+  active: boolean
+  disabled: boolean
+  remove(): void
+}
+type SelectedOptionPropsWeControl = 'type' | 'tabIndex' | 'onKeyDown' | 'onFocus' | 'onBlur'
+
+let SelectedOption = forwardRefWithAs(function SelectedOption<
+  TTag extends ElementType = typeof DEFAULT_SELECTED_OPTION_TAG,
+  // TODO: One day we will be able to infer this type from the generic in Combobox itself.
+  // But today is not that day..
+  TType = Parameters<typeof ComboboxRoot>[0]['value']
+>(
+  props: Props<TTag, SelectedOptionRenderPropArg, SelectedOptionPropsWeControl | 'value'> & {
+    value: TType
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { value, ...theirProps } = props
+  let data = useData('Combobox.SelectedOption')
+  let actions = useActions('Combobox.SelectedOption')
+
+  let internalSelectedOptionRef = useRef<HTMLElement | null>(null)
+  let selectedOptionRef = useSyncRefs(internalSelectedOptionRef, ref)
+  let [active, setActive] = useState(false)
+
+  useIsoMorphicEffect(
+    () => actions.registerSelectedOption(internalSelectedOptionRef),
+    [internalSelectedOptionRef]
+  )
+
+  let remove = useEvent(() => {
+    if (data.disabled) return
+    actions.removeOption(value)
+  })
+
+  let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLElement>) => {
+    switch (event.key) {
+      case Keys.ArrowLeft:
+        event.preventDefault()
+        return actions.focusSelectedOption(FocusManagementFocus.Previous)
+
+      case Keys.ArrowRight:
+        event.preventDefault()
+        return actions.focusSelectedOption(FocusManagementFocus.Next)
+
+      case Keys.Backspace:
+      case Keys.Delete:
+        event.preventDefault()
+
+        // Move focus away before removing the option, because this element will be unmounted.
+        if (
+          event.key === Keys.Delete ||
+          actions.focusSelectedOption(FocusManagementFocus.Previous) !== FocusResult.Success
+        ) {
+          actions.focusSelectedOption(FocusManagementFocus.Next)
+        }
+        return remove()
+
+      case Keys.Escape:
+        event.preventDefault()
+        return data.inputRef.current?.focus({ preventScroll: true })
+    }
+  })
+
+  let slot = useMemo<SelectedOptionRenderPropArg>(
+    () => ({ active, disabled: data.disabled, remove }),
+    [active, data.disabled, remove]
+  )
+
+  let ourProps = {
+    ref: selectedOptionRef,
+    type: useResolveButtonType(props, internalSelectedOptionRef),
+    tabIndex: -1,
+    disabled: data.disabled,
+    onKeyDown: handleKeyDown,
+    onFocus: () => setActive(true),
+    onBlur: () => setActive(false),
+  }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_SELECTED_OPTION_TAG,
+    name: 'Combobox.SelectedOption',
+  })
+})
+
+// ---
+
+export let Combobox = Object.assign(ComboboxRoot, {
+  Input,
+  Button,
+  Label,
+  Options,
+  Option,
+  Status,
+  Group,
+  GroupLabel,
+  SelectedOption,
+})
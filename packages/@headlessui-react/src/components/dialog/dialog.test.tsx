@@ -1,5 +1,5 @@
-import React, { createElement, useRef, useState } from 'react'
-import { render } from '@testing-library/react'
+import React, { createElement, Fragment, useRef, useState } from 'react'
+import { render, act, fireEvent } from '@testing-library/react'
 
 import { Dialog } from './dialog'
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
@@ -16,10 +16,17 @@ import {
   assertActiveElement,
   getDialogs,
   getDialogOverlays,
+  ListboxState,
+  PopoverState,
+  assertListbox,
+  assertPopoverPanel,
+  getPopoverButton,
 } from '../../test-utils/accessibility-assertions'
 import { click, press, Keys } from '../../test-utils/interactions'
 import { PropsOf } from '../../types'
 import { Transition } from '../transitions/transition'
+import { Popover } from '../popover/popover'
+import { Listbox } from '../listbox/listbox'
 import { createPortal } from 'react-dom'
 
 jest.mock('../../hooks/use-id')
@@ -42,6 +49,7 @@ describe('Safe guards', () => {
     ['Dialog.Title', Dialog.Title],
     ['Dialog.Backdrop', Dialog.Backdrop],
     ['Dialog.Panel', Dialog.Panel],
+    ['Dialog.Cancel', Dialog.Cancel],
   ])(
     'should error when we are using a <%s /> without a parent <Dialog />',
     suppressConsoleLogs((name, Component) => {
@@ -270,6 +278,35 @@ describe('Rendering', () => {
         expect(document.documentElement.style.overflow).toBe('hidden')
       })
     )
+
+    it(
+      'should keep the scroll lock until the last of overlapping Dialogs is closed',
+      suppressConsoleLogs(async () => {
+        function Example({ a, b }: { a: boolean; b: boolean }) {
+          return (
+            <>
+              <Dialog open={a} onClose={() => {}}>
+                <input type="text" />
+              </Dialog>
+              <Dialog open={b} onClose={() => {}}>
+                <input type="text" />
+              </Dialog>
+            </>
+          )
+        }
+
+        let { rerender } = render(<Example a={true} b={false} />)
+        rerender(<Example a={true} b={true} />)
+        expect(document.documentElement.style.overflow).toBe('hidden')
+
+        // Close the Dialogs in the order they were opened
+        rerender(<Example a={false} b={true} />)
+        expect(document.documentElement.style.overflow).toBe('hidden')
+
+        rerender(<Example a={false} b={false} />)
+        expect(document.documentElement.style.overflow).toBe('')
+      })
+    )
   })
 
   describe('Dialog.Overlay', () => {
@@ -1269,3 +1306,857 @@ describe('Nesting', () => {
     }
   )
 })
+
+describe('Alert dialog', () => {
+  function getAlertDialog() {
+    return document.querySelector<HTMLElement>('[role="alertdialog"]')
+  }
+
+  function nextFrame() {
+    return new Promise<void>((resolve) => {
+      requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+    })
+  }
+
+  it(
+    'should render an alertdialog that is described by its Dialog.Description',
+    suppressConsoleLogs(async () => {
+      render(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Title>Delete account</Dialog.Title>
+          <Dialog.Description>This will permanently delete your account.</Dialog.Description>
+          <button>Delete</button>
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+
+      expect(getDialog()).toBe(null)
+      expect(getAlertDialog()).toHaveAttribute('aria-modal', 'true')
+      expect(getAlertDialog()).toHaveAttribute(
+        'aria-describedby',
+        getByText('This will permanently delete your account.')!.id
+      )
+    })
+  )
+
+  it(
+    'should warn when an alertdialog has no Dialog.Description',
+    suppressConsoleLogs(async () => {
+      let warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+      let { rerender } = render(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Description>Are you sure?</Dialog.Description>
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      await nextFrame()
+      expect(warn).not.toHaveBeenCalled()
+
+      rerender(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      await nextFrame()
+      expect(warn).not.toHaveBeenCalled()
+
+      rerender(
+        <Dialog open={false} onClose={() => {}} role="alertdialog">
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      rerender(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      await nextFrame()
+      expect(warn).toHaveBeenCalledWith(
+        'A <Dialog role="alertdialog" /> requires a <Dialog.Description /> that describes what the user is confirming.'
+      )
+
+      // Only warn once per Dialog
+      rerender(
+        <Dialog open={false} onClose={() => {}} role="alertdialog">
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      rerender(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+      await nextFrame()
+      expect(warn).toHaveBeenCalledTimes(1)
+
+      warn.mockRestore()
+    })
+  )
+
+  it(
+    'should not warn about a missing Dialog.Description in production',
+    suppressConsoleLogs(async () => {
+      let warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+      let env = process.env.NODE_ENV
+      process.env.NODE_ENV = 'production'
+
+      try {
+        render(
+          <Dialog open={true} onClose={() => {}} role="alertdialog">
+            <Dialog.Cancel>Cancel</Dialog.Cancel>
+          </Dialog>
+        )
+        await nextFrame()
+        expect(warn).not.toHaveBeenCalled()
+      } finally {
+        process.env.NODE_ENV = env
+        warn.mockRestore()
+      }
+    })
+  )
+
+  it(
+    'should not close an alertdialog when clicking outside or on the Dialog.Overlay',
+    suppressConsoleLogs(async () => {
+      let handleClose = jest.fn()
+      render(
+        <>
+          <button>Outside</button>
+          <Dialog open={true} onClose={handleClose} role="alertdialog">
+            <Dialog.Overlay />
+            <Dialog.Description>Are you sure?</Dialog.Description>
+            <Dialog.Cancel>Cancel</Dialog.Cancel>
+          </Dialog>
+        </>
+      )
+
+      await click(document.body)
+      await click(getDialogOverlay())
+      expect(handleClose).not.toHaveBeenCalled()
+
+      // The `Escape` key still cancels the alertdialog
+      await press(Keys.Escape)
+      expect(handleClose).toHaveBeenCalledWith(false)
+    })
+  )
+
+  it(
+    'should focus the Dialog.Cancel button of an alertdialog by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Dialog open={true} onClose={() => {}} role="alertdialog">
+          <Dialog.Description>Are you sure?</Dialog.Description>
+          <button>Delete</button>
+          <Dialog.Cancel>Cancel</Dialog.Cancel>
+        </Dialog>
+      )
+
+      await nextFrame()
+      assertActiveElement(getByText('Cancel'))
+    })
+  )
+
+  it(
+    'should prefer the initialFocus ref over the Dialog.Cancel button',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let initialFocusRef = useRef(null)
+        return (
+          <Dialog open={true} onClose={() => {}} role="alertdialog" initialFocus={initialFocusRef}>
+            <Dialog.Description>Are you sure?</Dialog.Description>
+            <button ref={initialFocusRef}>Delete</button>
+            <Dialog.Cancel>Cancel</Dialog.Cancel>
+          </Dialog>
+        )
+      }
+      render(<Example />)
+
+      await nextFrame()
+      assertActiveElement(getByText('Delete'))
+    })
+  )
+
+  it(
+    'should be possible to close the Dialog with the Dialog.Cancel button',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(true)
+        return (
+          <Dialog open={isOpen} onClose={setIsOpen} role="alertdialog">
+            <Dialog.Description>Are you sure?</Dialog.Description>
+            <Dialog.Cancel>Cancel</Dialog.Cancel>
+          </Dialog>
+        )
+      }
+      render(<Example />)
+
+      expect(getAlertDialog()).not.toBe(null)
+      await click(getByText('Cancel'))
+      expect(getAlertDialog()).toBe(null)
+    })
+  )
+})
+
+describe('Close veto', () => {
+  it(
+    'should call `onBeforeClose` with the reason, and keep the Dialog open when it returns false',
+    suppressConsoleLogs(async () => {
+      let handleBeforeClose = jest.fn().mockReturnValue(false)
+      let handleClose = jest.fn()
+      render(
+        <>
+          <button>Outside</button>
+          <Dialog open={true} onClose={handleClose} onBeforeClose={handleBeforeClose}>
+            <Dialog.Overlay />
+            <Dialog.Cancel>Cancel</Dialog.Cancel>
+          </Dialog>
+        </>
+      )
+
+      await press(Keys.Escape)
+      await click(document.body)
+      await click(getDialogOverlay())
+      await click(getByText('Cancel'))
+
+      expect(handleBeforeClose.mock.calls).toEqual([
+        ['escape'],
+        ['outside-click'],
+        ['overlay-click'],
+        ['cancel'],
+      ])
+      expect(handleClose).not.toHaveBeenCalled()
+      assertDialog({ state: DialogState.Visible })
+    })
+  )
+
+  it(
+    'should call `onBeforeClose` with the overlay-click reason when a Dialog.Panel is rendered',
+    suppressConsoleLogs(async () => {
+      let handleBeforeClose = jest.fn().mockReturnValue(false)
+      render(
+        <>
+          <button>Outside</button>
+          <Dialog open={true} onClose={() => {}} onBeforeClose={handleBeforeClose}>
+            <Dialog.Overlay />
+            <Dialog.Panel>
+              <button>Inside</button>
+            </Dialog.Panel>
+          </Dialog>
+        </>
+      )
+
+      await click(getDialogOverlay())
+      await click(getByText('Outside'))
+
+      expect(handleBeforeClose.mock.calls).toEqual([['overlay-click'], ['outside-click']])
+    })
+  )
+
+  it(
+    'should keep the Dialog open, focused and scroll locked while `onBeforeClose` is pending',
+    suppressConsoleLogs(async () => {
+      let resolve: (allowed: boolean) => void = () => {}
+      let handleBeforeClose = jest.fn(() => new Promise<boolean>((r) => (resolve = r)))
+      function Example() {
+        let [isOpen, setIsOpen] = useState(true)
+        return (
+          <Dialog open={isOpen} onClose={setIsOpen} onBeforeClose={handleBeforeClose}>
+            <input id="a" type="text" />
+          </Dialog>
+        )
+      }
+      render(<Example />)
+
+      await new Promise<void>((resolve) => requestAnimationFrame(() => resolve()))
+      assertActiveElement(document.getElementById('a'))
+
+      await press(Keys.Escape)
+      assertDialog({ state: DialogState.Visible })
+      assertActiveElement(document.getElementById('a'))
+      expect(document.documentElement.style.overflow).toBe('hidden')
+
+      // Requests while a veto is pending are ignored
+      await press(Keys.Escape)
+      expect(handleBeforeClose).toHaveBeenCalledTimes(1)
+
+      // Cancelling keeps the Dialog open, and allows new requests
+      await act(async () => resolve(false))
+      assertDialog({ state: DialogState.Visible })
+
+      await press(Keys.Escape)
+      expect(handleBeforeClose).toHaveBeenCalledTimes(2)
+
+      await act(async () => resolve(true))
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+      expect(document.documentElement.style.overflow).toBe('')
+    })
+  )
+})
+
+describe('Non-modal', () => {
+  it(
+    'should not lock scrolling or close on outside click, but close on `Escape`',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(false)
+        return (
+          <>
+            <button onClick={() => setIsOpen(true)}>Trigger</button>
+            <Dialog open={isOpen} onClose={setIsOpen} modal={false}>
+              <Dialog.Title>Inspector</Dialog.Title>
+              <Dialog.Description>Properties of the selection</Dialog.Description>
+              <input type="text" />
+            </Dialog>
+          </>
+        )
+      }
+      render(<Example />)
+
+      await click(getByText('Trigger'))
+      expect(getDialog()).not.toBe(null)
+      assertDialogTitle({ state: DialogState.Visible, textContent: 'Inspector' })
+      assertDialogDescription({
+        state: DialogState.Visible,
+        textContent: 'Properties of the selection',
+      })
+      expect(getDialog()).not.toHaveAttribute('aria-modal')
+      expect(document.documentElement.style.overflow).toBe('')
+
+      await click(document.body)
+      await click(getByText('Trigger'))
+      expect(getDialog()).not.toBe(null)
+
+      await press(Keys.Escape)
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should be possible to `Tab` out of a non-modal Dialog',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(false)
+        return (
+          <>
+            <button onClick={() => setIsOpen(true)}>Trigger</button>
+            <Dialog open={isOpen} onClose={setIsOpen} modal={false}>
+              <button>A</button>
+              <button>B</button>
+            </Dialog>
+          </>
+        )
+      }
+      render(<Example />)
+
+      await click(getByText('Trigger'))
+      assertActiveElement(getByText('A'))
+
+      await press(Keys.Tab)
+      assertActiveElement(getByText('B'))
+
+      await press(Keys.Tab)
+      assertActiveElement(getByText('Trigger'))
+      expect(getDialog()).not.toBe(null)
+    })
+  )
+
+  it(
+    'should be possible to open a nested Dialog in a non-modal Dialog',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(true)
+        let [isNestedOpen, setIsNestedOpen] = useState(false)
+        return (
+          <Dialog open={isOpen} onClose={setIsOpen} modal={false}>
+            <button onClick={() => setIsNestedOpen(true)}>Open nested</button>
+            {isNestedOpen && (
+              <Dialog open={true} onClose={setIsNestedOpen}>
+                <button>Nested</button>
+              </Dialog>
+            )}
+          </Dialog>
+        )
+      }
+      render(<Example />)
+
+      await click(getByText('Open nested'))
+      expect(getDialogs()).toHaveLength(2)
+      assertActiveElement(getByText('Nested'))
+
+      // The nested Dialog is modal, so it locks scrolling
+      expect(document.documentElement.style.overflow).toBe('hidden')
+
+      await press(Keys.Escape)
+      expect(getDialogs()).toHaveLength(1)
+      assertActiveElement(getByText('Open nested'))
+
+      await press(Keys.Escape)
+      expect(getDialogs()).toHaveLength(0)
+    })
+  )
+})
+
+describe('Layers', () => {
+  function Example() {
+    let [isOpen, setIsOpen] = useState(false)
+    return (
+      <>
+        <button id="trigger" onClick={() => setIsOpen(true)}>
+          Trigger
+        </button>
+        <Dialog open={isOpen} onClose={setIsOpen}>
+          <Dialog.Overlay />
+          <Popover>
+            <Popover.Button>Settings</Popover.Button>
+            <Popover.Panel>
+              <Listbox value="a" onChange={() => {}}>
+                <Listbox.Button>Option</Listbox.Button>
+                <Listbox.Options>
+                  <Listbox.Option value="a">A</Listbox.Option>
+                  <Listbox.Option value="b">B</Listbox.Option>
+                </Listbox.Options>
+              </Listbox>
+            </Popover.Panel>
+          </Popover>
+        </Dialog>
+      </>
+    )
+  }
+
+  it(
+    'should only close the topmost layer on an outside click',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(document.getElementById('trigger'))
+      await click(getPopoverButton())
+      await click(getByText('Option'))
+      assertListbox({ state: ListboxState.Visible })
+
+      await click(document.body)
+      assertListbox({ state: ListboxState.InvisibleUnmounted })
+      assertPopoverPanel({ state: PopoverState.Visible })
+      assertDialog({ state: DialogState.Visible })
+
+      await click(document.body)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+      assertDialog({ state: DialogState.Visible })
+
+      await click(document.body)
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should only close the topmost layer when clicking the Dialog.Overlay',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(document.getElementById('trigger'))
+      await click(getPopoverButton())
+      await click(getByText('Option'))
+
+      await click(getDialogOverlay())
+      assertListbox({ state: ListboxState.InvisibleUnmounted })
+      assertPopoverPanel({ state: PopoverState.Visible })
+      assertDialog({ state: DialogState.Visible })
+    })
+  )
+
+  it(
+    'should only close the topmost layer on `Escape`, even when it does not have the focus',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(false)
+        return (
+          <>
+            <button id="trigger" onClick={() => setIsOpen(true)}>
+              Trigger
+            </button>
+            <Dialog open={isOpen} onClose={setIsOpen}>
+              <button>Inside</button>
+              <Popover hover openDelay={0}>
+                <Popover.Button>Help</Popover.Button>
+                <Popover.Panel>Contents</Popover.Panel>
+              </Popover>
+            </Dialog>
+          </>
+        )
+      }
+      render(<Example />)
+
+      await click(document.getElementById('trigger'))
+      assertActiveElement(getByText('Inside'))
+
+      // Open the Popover on hover, which keeps the focus where it is
+      fireEvent.pointerOver(getByText('Help')!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+      assertActiveElement(getByText('Inside'))
+
+      await press(Keys.Escape)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+      assertDialog({ state: DialogState.Visible })
+
+      await press(Keys.Escape)
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+})
+
+describe('Drawer', () => {
+  function getPanel() {
+    return document.querySelector('[id^="headlessui-dialog-panel-"]') as HTMLElement
+  }
+
+  // jsdom doesn't support the PointerEvent yet, and has no layout
+  function pointer(type: string, target: Element | Document, position: number, timeStamp: number) {
+    let event = new MouseEvent(type, {
+      bubbles: true,
+      cancelable: true,
+      clientX: position,
+      clientY: position,
+    })
+    Object.defineProperty(event, 'timeStamp', { value: timeStamp })
+    act(() => void target.dispatchEvent(event))
+  }
+
+  function drag(positions: [position: number, timeStamp: number][]) {
+    let [[position, timeStamp], ...rest] = positions
+    pointer('pointerdown', getPanel(), position, timeStamp)
+    for (let [position, timeStamp] of rest) pointer('pointermove', document, position, timeStamp)
+  }
+
+  function release(position: number, timeStamp: number) {
+    pointer('pointerup', document, position, timeStamp)
+  }
+
+  function nextFrame() {
+    return act(
+      () =>
+        new Promise<void>((resolve) => {
+          requestAnimationFrame(() => requestAnimationFrame(() => resolve()))
+        })
+    )
+  }
+
+  function Example({
+    style,
+    ...props
+  }: {
+    drawer?: 'top' | 'right' | 'bottom' | 'left'
+    snapPoints?: number[]
+    onBeforeClose?(): void | boolean | Promise<boolean>
+    style?: React.CSSProperties
+  }) {
+    let [isOpen, setIsOpen] = useState(false)
+    return (
+      <>
+        <button onClick={() => setIsOpen(true)}>Trigger</button>
+        <Dialog open={isOpen} onClose={setIsOpen} drawer="bottom" {...props}>
+          <Dialog.Panel
+            style={style}
+            ref={(element: HTMLElement | null) => {
+              if (!element) return
+              Object.defineProperty(element, 'offsetHeight', { value: 400, configurable: true })
+              Object.defineProperty(element, 'offsetWidth', { value: 300, configurable: true })
+            }}
+          >
+            <button>Contents</button>
+          </Dialog.Panel>
+        </Dialog>
+      </>
+    )
+  }
+
+  it(
+    'should follow the pointer, and snap back when released before the threshold',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [100, 500],
+        [150, 1000],
+      ])
+      expect(getPanel().style.transform).toBe('translateY(150px)')
+
+      release(150, 1000)
+      expect(getPanel().style.transform).toBe('')
+      assertDialog({ state: DialogState.Visible })
+    })
+  )
+
+  it(
+    'should close the drawer when dragged past the threshold',
+    suppressConsoleLogs(async () => {
+      let handleBeforeClose = jest.fn()
+      render(<Example onBeforeClose={handleBeforeClose} />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [300, 1000],
+      ])
+      release(300, 1000)
+
+      expect(handleBeforeClose).toHaveBeenCalledWith('swipe')
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should continue the leave transition from the dragged position',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [isOpen, setIsOpen] = useState(false)
+        return (
+          <>
+            <button onClick={() => setIsOpen(true)}>Trigger</button>
+            <Transition show={isOpen} as={Fragment}>
+              <Dialog onClose={setIsOpen} drawer="bottom">
+                <Transition.Child
+                  data-testid="transition"
+                  leave="transition"
+                  leaveFrom="leave-from"
+                  leaveTo="leave-to"
+                >
+                  <Dialog.Panel
+                    ref={(element: HTMLElement | null) => {
+                      if (!element) return
+                      Object.defineProperty(element, 'offsetHeight', {
+                        value: 400,
+                        configurable: true,
+                      })
+                    }}
+                  >
+                    <button>Contents</button>
+                  </Dialog.Panel>
+                </Transition.Child>
+              </Dialog>
+            </Transition>
+          </>
+        )
+      }
+      render(<Example />)
+      await click(getByText('Trigger'))
+
+      // jsdom has no layout, a Transition hides invisible elements right away
+      jest
+        .spyOn(getDialog()!, 'getBoundingClientRect')
+        .mockReturnValue({ x: 0, y: 0, width: 300, height: 400 } as DOMRect)
+
+      drag([
+        [0, 0],
+        [300, 1000],
+      ])
+      release(300, 1000)
+
+      // The Dialog is leaving, but keeps its dragged position until the `leaveTo` classes apply
+      expect(document.querySelector('[data-testid="transition"]')).toHaveClass('leave-from')
+      expect(getPanel().style.transform).toBe('translateY(300px)')
+      expect(getPanel().style.transition).toBe('')
+    })
+  )
+
+  it(
+    'should close the drawer when flicked towards its edge',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [20, 100],
+        [80, 150],
+      ])
+      release(80, 150)
+
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should not drag when the pointer barely moves, so that clicks keep working',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [5, 100],
+      ])
+      expect(getPanel().style.transform).toBe('')
+      release(5, 100)
+      assertDialog({ state: DialogState.Visible })
+    })
+  )
+
+  it(
+    'should drag towards the edge the drawer is anchored to',
+    suppressConsoleLogs(async () => {
+      render(<Example drawer="left" />)
+      await click(getByText('Trigger'))
+
+      // Dragging away from the edge is not possible
+      drag([
+        [200, 0],
+        [250, 500],
+      ])
+      expect(getPanel().style.transform).toBe('')
+
+      pointer('pointermove', document, 100, 1000)
+      expect(getPanel().style.transform).toBe('translateX(-100px)')
+
+      pointer('pointermove', document, 0, 1500)
+      release(0, 1500)
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should start at the first snap point, and snap to the closest one',
+    suppressConsoleLogs(async () => {
+      render(<Example snapPoints={[0.5, 1]} />)
+      await click(getByText('Trigger'))
+      await nextFrame()
+      expect(getPanel().style.transform).toBe('translateY(200px)')
+
+      // Expand the drawer
+      drag([
+        [200, 0],
+        [50, 1000],
+      ])
+      release(50, 1000)
+      expect(getPanel().style.transform).toBe('')
+
+      // Move it down a bit, to the half open position
+      drag([
+        [0, 0],
+        [150, 1000],
+      ])
+      release(150, 1000)
+      expect(getPanel().style.transform).toBe('translateY(200px)')
+      assertDialog({ state: DialogState.Visible })
+
+      // Flick it from the half open position to close it
+      drag([
+        [200, 0],
+        [260, 50],
+      ])
+      release(260, 50)
+      assertDialog({ state: DialogState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should move back when closing the drawer is refused',
+    suppressConsoleLogs(async () => {
+      jest.useFakeTimers()
+      try {
+        let handleBeforeClose = jest.fn().mockReturnValue(false)
+        render(<Example onBeforeClose={handleBeforeClose} />)
+        await act(async () => getByText('Trigger')!.click())
+
+        drag([
+          [0, 0],
+          [300, 1000],
+        ])
+        release(300, 1000)
+
+        // Verify that the drawer animates back to its open position
+        expect(handleBeforeClose).toHaveBeenCalledWith('swipe')
+        assertDialog({ state: DialogState.Visible })
+        expect(getPanel().style.transform).toBe('')
+        expect(getPanel().style.transition).toBe('transform 200ms ease-out')
+
+        act(() => void jest.advanceTimersByTime(200))
+        expect(getPanel().style.transition).toBe('')
+      } finally {
+        jest.useRealTimers()
+      }
+    })
+  )
+
+  it(
+    'should keep the dragged position while closing the drawer is pending',
+    suppressConsoleLogs(async () => {
+      let resolve = (_: boolean) => {}
+      render(<Example onBeforeClose={() => new Promise((r) => (resolve = r))} />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [300, 1000],
+      ])
+      release(300, 1000)
+
+      await nextFrame()
+      expect(getPanel().style.transform).toBe('translateY(300px)')
+
+      // Refuse to close
+      await act(async () => resolve(false))
+      assertDialog({ state: DialogState.Visible })
+      expect(getPanel().style.transform).toBe('')
+    })
+  )
+
+  it(
+    'should restore the transition of the drawer after dragging it',
+    suppressConsoleLogs(async () => {
+      render(<Example style={{ transition: 'opacity 300ms' }} />)
+      await click(getByText('Trigger'))
+
+      drag([
+        [0, 0],
+        [100, 500],
+      ])
+      expect(getPanel().style.transition).toBe('none')
+
+      release(100, 500)
+      expect(getPanel().style.transition).toBe('opacity 300ms')
+    })
+  )
+
+  it(
+    'should capture the pointer once the drawer is dragged',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+      await click(getByText('Trigger'))
+
+      let setPointerCapture = jest.fn()
+      Object.defineProperty(getPanel(), 'setPointerCapture', { value: setPointerCapture })
+
+      drag([[0, 0]])
+      expect(setPointerCapture).not.toHaveBeenCalled()
+
+      pointer('pointermove', document, 100, 500)
+      expect(setPointerCapture).toHaveBeenCalledTimes(1)
+      release(100, 500)
+    })
+  )
+
+  it(
+    'should only allow the browser to pan along the other axis',
+    suppressConsoleLogs(async () => {
+      render(<Example drawer="left" />)
+      await click(getByText('Trigger'))
+
+      expect(getPanel().style.touchAction).toBe('pan-y pinch-zoom')
+    })
+  )
+
+  it(
+    'should apply the first snap point once the enter transition ended',
+    suppressConsoleLogs(async () => {
+      render(<Example snapPoints={[0.5, 1]} style={{ transitionDuration: '300ms' }} />)
+      await click(getByText('Trigger'))
+      await nextFrame()
+      expect(getPanel().style.transform).toBe('')
+
+      act(() => void getPanel().dispatchEvent(new Event('transitionend')))
+      expect(getPanel().style.transform).toBe('translateY(200px)')
+    })
+  )
+})
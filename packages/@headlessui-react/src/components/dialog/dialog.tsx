@@ -33,20 +33,29 @@ import { useOpenClosed, State } from '../../internal/open-closed'
 import { useServerHandoffComplete } from '../../hooks/use-server-handoff-complete'
 import { StackProvider, StackMessage } from '../../internal/stack-context'
 import { useOutsideClick } from '../../hooks/use-outside-click'
-import { getOwnerDocument } from '../../utils/owner'
+import { LayerProvider } from '../../hooks/use-layer'
 import { useOwnerDocument } from '../../hooks/use-owner'
 import { useEventListener } from '../../hooks/use-event-listener'
 import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
 import { useEvent } from '../../hooks/use-event'
+import { useScrollLock } from '../../hooks/use-scroll-lock'
+import { Edge, useSwipeToDismiss } from '../../hooks/use-swipe-to-dismiss'
+import { useLatestValue } from '../../hooks/use-latest-value'
+import { disposables } from '../../utils/disposables'
+import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 
 enum DialogStates {
   Open,
   Closed,
 }
 
+type DialogCloseReason = 'escape' | 'outside-click' | 'overlay-click' | 'cancel' | 'swipe'
+
 interface StateDefinition {
   titleId: string | null
   panelRef: MutableRefObject<HTMLDivElement | null>
+  overlayRef: MutableRefObject<HTMLDivElement | null>
+  cancelRef: MutableRefObject<HTMLButtonElement | null>
 }
 
 enum ActionTypes {
@@ -71,7 +80,10 @@ let DialogContext = createContext<
   | [
       {
         dialogState: DialogStates
-        close(): void
+        role: 'dialog' | 'alertdialog'
+        drawer: Edge | null
+        snapPoints?: number[]
+        close(reason: DialogCloseReason, event?: Event): boolean | Promise<boolean>
         setTitleId(id: string | null): void
       },
       StateDefinition
@@ -112,11 +124,27 @@ let DialogRoot = forwardRefWithAs(function Dialog<
       open?: boolean
       onClose(value: boolean): void
       initialFocus?: MutableRefObject<HTMLElement | null>
+      role?: 'dialog' | 'alertdialog'
+      modal?: boolean
+      drawer?: Edge
+      snapPoints?: number[]
+      onBeforeClose?(reason: DialogCloseReason): boolean | void | Promise<boolean | void>
       __demoMode?: boolean
     },
   ref: Ref<HTMLDivElement>
 ) {
-  let { open, onClose, initialFocus, __demoMode = false, ...theirProps } = props
+  let {
+    open,
+    onClose,
+    initialFocus,
+    role = 'dialog',
+    modal = true,
+    drawer = null,
+    snapPoints,
+    onBeforeClose,
+    __demoMode = false,
+    ...theirProps
+  } = props
   let [nestedDialogCount, setNestedDialogCount] = useState(0)
 
   let usesOpenClosedState = useOpenClosed()
@@ -176,26 +204,62 @@ let DialogRoot = forwardRefWithAs(function Dialog<
     titleId: null,
     descriptionId: null,
     panelRef: createRef(),
+    overlayRef: createRef(),
+    cancelRef: createRef(),
   } as StateDefinition)
 
   let close = useEvent(() => onClose(false))
 
+  // The `onBeforeClose` callback can veto closing the Dialog, either right away or once its promise
+  // resolves. The Dialog stays open (including the focus trap and scroll lock) in the meantime.
+  // Resolves to whether the Dialog actually closes.
+  let latestDialogState = useLatestValue(dialogState)
+  let pendingClose = useRef(false)
+  let requestClose = useEvent((reason: DialogCloseReason, event?: Event) => {
+    // Another layer on top of this Dialog (e.g. an open `Listbox`) handles the event instead
+    if (event && !isTopLayer(event)) return false
+    if (pendingClose.current) return false
+
+    let result = onBeforeClose?.(reason)
+    if (result === false) return false
+    if (!(result instanceof Promise)) {
+      close()
+      return true
+    }
+
+    pendingClose.current = true
+    return result
+      .then(
+        (allowed) => {
+          if (allowed === false) return false
+          if (latestDialogState.current !== DialogStates.Open) return false
+          close()
+          return true
+        },
+        () => false
+      )
+      .finally(() => {
+        pendingClose.current = false
+      })
+  })
+
   let setTitleId = useEvent((id: string | null) => dispatch({ type: ActionTypes.SetTitleId, id }))
 
   let ready = useServerHandoffComplete()
   let enabled = ready ? (__demoMode ? false : dialogState === DialogStates.Open) : false
   let hasNestedDialogs = nestedDialogCount > 1 // 1 is the current dialog
-  let hasParentDialog = useContext(DialogContext) !== null
 
   // If there are multiple dialogs, then you can be the root, the leaf or one
   // in between. We only care abou whether you are the top most one or not.
   let position = !hasNestedDialogs ? 'leaf' : 'parent'
 
   // Ensure other elements can't be interacted with
-  useInertOthers(internalDialogRef, hasNestedDialogs ? enabled : false)
+  useInertOthers(internalDialogRef, hasNestedDialogs && modal ? enabled : false)
 
-  // Close Dialog on outside click
-  useOutsideClick(
+  // Close Dialog on outside click, an alertdialog requires an explicit choice instead. The rest of
+  // the page stays interactive while a non-modal Dialog is open, so it doesn't close either.
+  // Both are still the topmost layer though, so the layers below them don't close either.
+  let [layer, isTopLayer] = useOutsideClick(
     () => {
       // Third party roots
       let rootContainers = Array.from(
@@ -212,7 +276,12 @@ let DialogRoot = forwardRefWithAs(function Dialog<
         state.panelRef.current ?? internalDialogRef.current,
       ] as HTMLElement[]
     },
-    close,
+    (_event, target) => {
+      if (!modal || role === 'alertdialog') return
+
+      // The `Dialog.Overlay` is outside of the `Dialog.Panel`, so this handles its clicks first
+      requestClose(state.overlayRef.current?.contains(target) ? 'overlay-click' : 'outside-click')
+    },
     enabled && !hasNestedDialogs
   )
 
@@ -222,39 +291,17 @@ let DialogRoot = forwardRefWithAs(function Dialog<
     if (event.key !== Keys.Escape) return
     if (dialogState !== DialogStates.Open) return
     if (hasNestedDialogs) return
+    if (!isTopLayer(event)) return
     event.preventDefault()
     event.stopPropagation()
-    close()
+    requestClose('escape')
   })
 
-  // Scroll lock
-  useEffect(() => {
-    if (dialogState !== DialogStates.Open) return
-    if (hasParentDialog) return
-
-    let ownerDocument = getOwnerDocument(internalDialogRef)
-    if (!ownerDocument) return
-
-    let documentElement = ownerDocument.documentElement
-    let ownerWindow = ownerDocument.defaultView ?? window
-
-    let overflow = documentElement.style.overflow
-    let paddingRight = documentElement.style.paddingRight
-
-    let scrollbarWidthBefore = ownerWindow.innerWidth - documentElement.clientWidth
-    documentElement.style.overflow = 'hidden'
-
-    if (scrollbarWidthBefore > 0) {
-      let scrollbarWidthAfter = documentElement.clientWidth - documentElement.offsetWidth
-      let scrollbarWidth = scrollbarWidthBefore - scrollbarWidthAfter
-      documentElement.style.paddingRight = `${scrollbarWidth}px`
-    }
-
-    return () => {
-      documentElement.style.overflow = overflow
-      documentElement.style.paddingRight = paddingRight
-    }
-  }, [dialogState, hasParentDialog])
+  // Scroll lock, the Dialog itself and its nested Dialogs can still scroll
+  useScrollLock(ownerDocument, dialogState === DialogStates.Open && modal, () => [
+    internalDialogRef.current,
+    ...Array.from(containers.current, (container) => container.current),
+  ])
 
   // Trigger close when the FocusTrap gets hidden
   useEffect(() => {
@@ -281,11 +328,32 @@ let DialogRoot = forwardRefWithAs(function Dialog<
 
   let [describedby, DescriptionProvider] = useDescriptions()
 
+  // An alertdialog has to describe what the user is confirming. Descriptions register themselves
+  // once they are mounted, so we only check after they had the chance to do so.
+  let hasDescription = useLatestValue(describedby !== undefined)
+  let warnedAboutDescription = useRef(false)
+  useEffect(() => {
+    if (process.env.NODE_ENV === 'production') return
+    if (role !== 'alertdialog') return
+    if (dialogState !== DialogStates.Open) return
+    if (warnedAboutDescription.current) return
+
+    let d = disposables()
+    d.nextFrame(() => {
+      if (hasDescription.current) return
+      warnedAboutDescription.current = true
+      console.warn(
+        'A <Dialog role="alertdialog" /> requires a <Dialog.Description /> that describes what the user is confirming.'
+      )
+    })
+    return d.dispose
+  }, [role, dialogState, hasDescription])
+
   let id = `headlessui-dialog-${useId()}`
 
   let contextBag = useMemo<ContextType<typeof DialogContext>>(
-    () => [{ dialogState, close, setTitleId }, state],
-    [dialogState, state, close, setTitleId]
+    () => [{ dialogState, role, drawer, snapPoints, close: requestClose, setTitleId }, state],
+    [dialogState, role, drawer, snapPoints, state, requestClose, setTitleId]
   )
 
   let slot = useMemo<DialogRenderPropArg>(
@@ -296,67 +364,75 @@ let DialogRoot = forwardRefWithAs(function Dialog<
   let ourProps = {
     ref: dialogRef,
     id,
-    role: 'dialog',
-    'aria-modal': dialogState === DialogStates.Open ? true : undefined,
+    role,
+    'aria-modal': modal && dialogState === DialogStates.Open ? true : undefined,
     'aria-labelledby': state.titleId,
     'aria-describedby': describedby,
   }
 
   return (
-    <StackProvider
-      type="Dialog"
-      element={internalDialogRef}
-      onUpdate={useEvent((message, type, element) => {
-        if (type !== 'Dialog') return
-
-        match(message, {
-          [StackMessage.Add]() {
-            containers.current.add(element)
-            setNestedDialogCount((count) => count + 1)
-          },
-          [StackMessage.Remove]() {
-            containers.current.add(element)
-            setNestedDialogCount((count) => count - 1)
-          },
-        })
-      })}
-    >
-      <ForcePortalRoot force={true}>
-        <Portal>
-          <DialogContext.Provider value={contextBag}>
-            <Portal.Group target={internalDialogRef}>
-              <ForcePortalRoot force={false}>
-                <DescriptionProvider slot={slot} name="Dialog.Description">
-                  <FocusTrap
-                    initialFocus={initialFocus}
-                    containers={containers}
-                    features={
-                      enabled
-                        ? match(position, {
-                            parent: FocusTrap.features.RestoreFocus,
-                            leaf: FocusTrap.features.All & ~FocusTrap.features.FocusLock,
-                          })
-                        : FocusTrap.features.None
-                    }
-                  >
-                    {render({
-                      ourProps,
-                      theirProps,
-                      slot,
-                      defaultTag: DEFAULT_DIALOG_TAG,
-                      features: DialogRenderFeatures,
-                      visible: dialogState === DialogStates.Open,
-                      name: 'Dialog',
-                    })}
-                  </FocusTrap>
-                </DescriptionProvider>
-              </ForcePortalRoot>
-            </Portal.Group>
-          </DialogContext.Provider>
-        </Portal>
-      </ForcePortalRoot>
-      <Hidden features={HiddenFeatures.Hidden} ref={mainTreeNode} />
-    </StackProvider>
+    <LayerProvider value={layer}>
+      <StackProvider
+        type="Dialog"
+        element={internalDialogRef}
+        onUpdate={useEvent((message, type, element) => {
+          if (type !== 'Dialog') return
+
+          match(message, {
+            [StackMessage.Add]() {
+              containers.current.add(element)
+              setNestedDialogCount((count) => count + 1)
+            },
+            [StackMessage.Remove]() {
+              containers.current.add(element)
+              setNestedDialogCount((count) => count - 1)
+            },
+          })
+        })}
+      >
+        <ForcePortalRoot force={true}>
+          <Portal>
+            <DialogContext.Provider value={contextBag}>
+              <Portal.Group target={internalDialogRef}>
+                <ForcePortalRoot force={false}>
+                  <DescriptionProvider slot={slot} name="Dialog.Description">
+                    <FocusTrap
+                      initialFocus={
+                        // Focus the least destructive action of an alertdialog by default
+                        initialFocus ?? (role === 'alertdialog' ? state.cancelRef : undefined)
+                      }
+                      containers={containers}
+                      features={
+                        enabled
+                          ? match(position, {
+                              parent: FocusTrap.features.RestoreFocus,
+                              // A non-modal Dialog still manages focus, but `Tab` can leave it
+                              leaf: modal
+                                ? FocusTrap.features.All & ~FocusTrap.features.FocusLock
+                                : FocusTrap.features.InitialFocus | FocusTrap.features.RestoreFocus,
+                            })
+                          : FocusTrap.features.None
+                      }
+                    >
+                      {render({
+                        ourProps,
+                        theirProps,
+                        slot,
+                        defaultTag: DEFAULT_DIALOG_TAG,
+                        features: DialogRenderFeatures,
+                        visible: dialogState === DialogStates.Open,
+                        name: 'Dialog',
+                      })}
+                    </FocusTrap>
+                  </DescriptionProvider>
+                </ForcePortalRoot>
+              </Portal.Group>
+            </DialogContext.Provider>
+          </Portal>
+        </ForcePortalRoot>
+        <Hidden features={HiddenFeatures.Hidden} ref={mainTreeNode} />
+      </StackProvider>
+    </LayerProvider>
   )
 })
 
@@ -371,8 +447,8 @@ type OverlayPropsWeControl = 'id' | 'aria-hidden' | 'onClick'
 let Overlay = forwardRefWithAs(function Overlay<
   TTag extends ElementType = typeof DEFAULT_OVERLAY_TAG
 >(props: Props<TTag, OverlayRenderPropArg, OverlayPropsWeControl>, ref: Ref<HTMLDivElement>) {
-  let [{ dialogState, close }] = useDialogContext('Dialog.Overlay')
-  let overlayRef = useSyncRefs(ref)
+  let [{ dialogState, role, close }, state] = useDialogContext('Dialog.Overlay')
+  let overlayRef = useSyncRefs(ref, state.overlayRef)
 
   let id = `headlessui-dialog-overlay-${useId()}`
 
@@ -381,7 +457,8 @@ let Overlay = forwardRefWithAs(function Overlay<
     if (isDisabledReactIssue7711(event.currentTarget)) return event.preventDefault()
     event.preventDefault()
     event.stopPropagation()
-    close()
+    if (role === 'alertdialog') return
+    close('overlay-click', event.nativeEvent)
   })
 
   let slot = useMemo<OverlayRenderPropArg>(
@@ -468,11 +545,19 @@ let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DE
   props: Props<TTag, PanelRenderPropArg>,
   ref: Ref<HTMLDivElement>
 ) {
-  let [{ dialogState }, state] = useDialogContext('Dialog.Panel')
+  let [{ dialogState, drawer, snapPoints, close }, state] = useDialogContext('Dialog.Panel')
   let panelRef = useSyncRefs(ref, state.panelRef)
 
   let id = `headlessui-dialog-panel-${useId()}`
 
+  // A drawer can be dragged towards its edge to close it
+  let handlePointerDown = useSwipeToDismiss(
+    state.panelRef,
+    drawer,
+    () => close('swipe'),
+    snapPoints
+  )
+
   let slot = useMemo<PanelRenderPropArg>(
     () => ({ open: dialogState === DialogStates.Open }),
     [dialogState]
@@ -489,6 +574,7 @@ let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DE
     ref: panelRef,
     id,
     onClick: handleClick,
+    onPointerDown: handlePointerDown,
   }
 
   return render({
@@ -541,4 +627,50 @@ let Title = forwardRefWithAs(function Title<TTag extends ElementType = typeof DE
 
 // ---
 
-export let Dialog = Object.assign(DialogRoot, { Backdrop, Panel, Overlay, Title, Description })
+let DEFAULT_CANCEL_TAG = 'button' as const
+interface CancelRenderPropArg {
+  open: boolean
+}
+type CancelPropsWeControl = 'onClick'
+
+let Cancel = forwardRefWithAs(function Cancel<TTag extends ElementType = typeof DEFAULT_CANCEL_TAG>(
+  props: Props<TTag, CancelRenderPropArg, CancelPropsWeControl>,
+  ref: Ref<HTMLButtonElement>
+) {
+  let [{ dialogState, close }, state] = useDialogContext('Dialog.Cancel')
+  let internalCancelRef = useRef<HTMLButtonElement | null>(null)
+  let cancelRef = useSyncRefs(internalCancelRef, ref, state.cancelRef)
+
+  let handleClick = useEvent((event: ReactMouseEvent) => {
+    if (isDisabledReactIssue7711(event.currentTarget)) return event.preventDefault()
+    close('cancel')
+  })
+
+  let slot = useMemo<CancelRenderPropArg>(
+    () => ({ open: dialogState === DialogStates.Open }),
+    [dialogState]
+  )
+
+  let type = useResolveButtonType(props, internalCancelRef)
+  let theirProps = props
+  let ourProps = { ref: cancelRef, type, onClick: handleClick }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_CANCEL_TAG,
+    name: 'Dialog.Cancel',
+  })
+})
+
+// ---
+
+export let Dialog = Object.assign(DialogRoot, {
+  Backdrop,
+  Panel,
+  Overlay,
+  Title,
+  Description,
+  Cancel,
+})
@@ -1,4 +1,4 @@
-import React, { createElement, useEffect, useRef } from 'react'
+import React, { createElement, useEffect, useRef, useState } from 'react'
 import { render } from '@testing-library/react'
 
 import { Disclosure } from './disclosure'
@@ -945,3 +945,78 @@ describe('Mouse interactions', () => {
     })
   )
 })
+
+describe('Controlled open state', () => {
+  it(
+    'should only open or close the Disclosure when the `open` prop changes',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(false)
+        let [locked, setLocked] = useState(false)
+
+        return (
+          <>
+            <Disclosure
+              open={open}
+              onChange={(open: boolean) => {
+                handleChange(open)
+                if (!locked) setOpen(open)
+              }}
+            >
+              <Disclosure.Button>Trigger</Disclosure.Button>
+              <Disclosure.Panel>Contents</Disclosure.Panel>
+            </Disclosure>
+            <button onClick={() => setLocked((locked) => !locked)}>Lock</button>
+            <button onClick={() => setOpen((open) => !open)}>Toggle</button>
+          </>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getDisclosureButton())
+      assertDisclosurePanel({ state: DisclosureState.Visible })
+
+      await press(Keys.Enter, getDisclosureButton())
+      assertDisclosurePanel({ state: DisclosureState.InvisibleUnmounted })
+
+      // The request to open is reported, but the Disclosure stays closed
+      await click(getByText('Lock'))
+      await click(getDisclosureButton())
+      assertDisclosurePanel({ state: DisclosureState.InvisibleUnmounted })
+
+      // Changes from the outside are not reported
+      await click(getByText('Toggle'))
+      assertDisclosureButton({ state: DisclosureState.Visible })
+      assertDisclosurePanel({ state: DisclosureState.Visible })
+
+      expect(handleChange.mock.calls).toEqual([[true], [false], [true]])
+    })
+  )
+
+  it(
+    'should restore the focus to the Disclosure.Button when closing a controlled Disclosure',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [open, setOpen] = useState(true)
+
+        return (
+          <Disclosure open={open} onChange={setOpen}>
+            <Disclosure.Button>Trigger</Disclosure.Button>
+            <Disclosure.Panel>
+              {({ close }) => <button onClick={() => close()}>Close me</button>}
+            </Disclosure.Panel>
+          </Disclosure>
+        )
+      }
+
+      render(<Example />)
+      assertDisclosurePanel({ state: DisclosureState.Visible })
+
+      await click(getByText('Close me'))
+      assertDisclosurePanel({ state: DisclosureState.InvisibleUnmounted })
+      assertActiveElement(getDisclosureButton())
+    })
+  )
+})
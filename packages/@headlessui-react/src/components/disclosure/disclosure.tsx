@@ -29,6 +29,7 @@ import { OpenClosedProvider, State, useOpenClosed } from '../../internal/open-cl
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { getOwnerDocument } from '../../utils/owner'
 import { useEvent } from '../../hooks/use-event'
+import { useOpenChange } from '../../hooks/use-open-change'
 
 enum DisclosureStates {
   Open,
@@ -48,6 +49,7 @@ interface StateDefinition {
 }
 
 enum ActionTypes {
+  OpenDisclosure,
   ToggleDisclosure,
   CloseDisclosure,
 
@@ -59,6 +61,7 @@ enum ActionTypes {
 }
 
 type Actions =
+  | { type: ActionTypes.OpenDisclosure }
   | { type: ActionTypes.ToggleDisclosure }
   | { type: ActionTypes.CloseDisclosure }
   | { type: ActionTypes.SetButtonId; buttonId: string }
@@ -72,6 +75,10 @@ let reducers: {
     action: Extract<Actions, { type: P }>
   ) => StateDefinition
 } = {
+  [ActionTypes.OpenDisclosure]: (state) => {
+    if (state.disclosureState === DisclosureStates.Open) return state
+    return { ...state, disclosureState: DisclosureStates.Open }
+  },
   [ActionTypes.ToggleDisclosure]: (state) => ({
     ...state,
     disclosureState: match(state.disclosureState, {
@@ -140,6 +147,10 @@ function stateReducer(state: StateDefinition, action: Actions) {
   return match(action.type, reducers, state, action)
 }
 
+function createOpenChangeAction(open: boolean): Actions {
+  return open ? { type: ActionTypes.OpenDisclosure } : { type: ActionTypes.CloseDisclosure }
+}
+
 // ---
 
 let DEFAULT_DISCLOSURE_TAG = Fragment
@@ -151,12 +162,14 @@ interface DisclosureRenderPropArg {
 let DisclosureRoot = forwardRefWithAs(function Disclosure<
   TTag extends ElementType = typeof DEFAULT_DISCLOSURE_TAG
 >(
-  props: Props<TTag, DisclosureRenderPropArg> & {
+  props: Props<TTag, DisclosureRenderPropArg, 'open' | 'defaultOpen' | 'onChange'> & {
+    open?: boolean
     defaultOpen?: boolean
+    onChange?(open: boolean): void
   },
   ref: Ref<TTag>
 ) {
-  let { defaultOpen = false, ...theirProps } = props
+  let { open: controlledOpen, defaultOpen = false, onChange, ...theirProps } = props
   let buttonId = `headlessui-disclosure-button-${useId()}`
   let panelId = `headlessui-disclosure-panel-${useId()}`
   let internalDisclosureRef = useRef<HTMLElement | null>(null)
@@ -175,15 +188,35 @@ let DisclosureRoot = forwardRefWithAs(function Disclosure<
   let panelRef = useRef<StateDefinition['panelRef']['current']>(null)
   let buttonRef = useRef<StateDefinition['buttonRef']['current']>(null)
 
-  let reducerBag = useReducer(stateReducer, {
-    disclosureState: defaultOpen ? DisclosureStates.Open : DisclosureStates.Closed,
+  let [state, internalDispatch] = useReducer(stateReducer, {
+    disclosureState:
+      controlledOpen ?? defaultOpen ? DisclosureStates.Open : DisclosureStates.Closed,
     linkedPanel: false,
     buttonRef,
     panelRef,
     buttonId,
     panelId,
   } as StateDefinition)
-  let [{ disclosureState }, dispatch] = reducerBag
+  let { disclosureState } = state
+  let dispatch = useOpenChange<Actions>({
+    open: disclosureState === DisclosureStates.Open,
+    controlledOpen,
+    onOpenChange: (open) => onChange?.(open),
+    dispatch: internalDispatch,
+    resolveOpenChange: (action) => {
+      if (action.type === ActionTypes.OpenDisclosure) return { open: true, reason: null }
+      if (action.type === ActionTypes.CloseDisclosure) return { open: false, reason: null }
+      if (action.type === ActionTypes.ToggleDisclosure) {
+        return { open: disclosureState !== DisclosureStates.Open, reason: null }
+      }
+      return null
+    },
+    createAction: createOpenChangeAction,
+  })
+  let reducerBag = useMemo<[StateDefinition, Dispatch<Actions>]>(
+    () => [state, dispatch],
+    [state, dispatch]
+  )
 
   useEffect(() => dispatch({ type: ActionTypes.SetButtonId, buttonId }), [buttonId, dispatch])
   useEffect(() => dispatch({ type: ActionTypes.SetPanelId, panelId }), [panelId, dispatch])
@@ -19,4 +19,7 @@ export enum Keys {
   PageDown = 'PageDown',
 
   Tab = 'Tab',
+
+  F10 = 'F10',
+  ContextMenu = 'ContextMenu',
 }
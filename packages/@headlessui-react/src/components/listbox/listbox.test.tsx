@@ -1,5 +1,5 @@
 import React, { createElement, useState, useEffect } from 'react'
-import { render } from '@testing-library/react'
+import { render, act, fireEvent } from '@testing-library/react'
 
 import { Listbox } from './listbox'
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
@@ -54,6 +54,7 @@ describe('safeguards', () => {
     ['Listbox.Label', Listbox.Label],
     ['Listbox.Options', Listbox.Options],
     ['Listbox.Option', Listbox.Option],
+    ['Listbox.Group', Listbox.Group],
   ])(
     'should error when we are using a <%s /> without a parent <Listbox />',
     suppressConsoleLogs((name, Component) => {
@@ -355,7 +356,7 @@ describe('Rendering', () => {
         assertListboxButton({
           state: ListboxState.InvisibleUnmounted,
           attributes: { id: 'headlessui-listbox-button-1' },
-          textContent: JSON.stringify({ open: false, disabled: false }),
+          textContent: JSON.stringify({ open: false, disabled: false, invalid: false }),
         })
         assertListbox({ state: ListboxState.InvisibleUnmounted })
 
@@ -364,7 +365,7 @@ describe('Rendering', () => {
         assertListboxButton({
           state: ListboxState.Visible,
           attributes: { id: 'headlessui-listbox-button-1' },
-          textContent: JSON.stringify({ open: true, disabled: false }),
+          textContent: JSON.stringify({ open: true, disabled: false, invalid: false }),
         })
         assertListbox({ state: ListboxState.Visible })
       })
@@ -389,7 +390,7 @@ describe('Rendering', () => {
         assertListboxButton({
           state: ListboxState.InvisibleUnmounted,
           attributes: { id: 'headlessui-listbox-button-1' },
-          textContent: JSON.stringify({ open: false, disabled: false }),
+          textContent: JSON.stringify({ open: false, disabled: false, invalid: false }),
         })
         assertListbox({ state: ListboxState.InvisibleUnmounted })
 
@@ -398,7 +399,7 @@ describe('Rendering', () => {
         assertListboxButton({
           state: ListboxState.Visible,
           attributes: { id: 'headlessui-listbox-button-1' },
-          textContent: JSON.stringify({ open: true, disabled: false }),
+          textContent: JSON.stringify({ open: true, disabled: false, invalid: false }),
         })
         assertListbox({ state: ListboxState.Visible })
       })
@@ -4200,166 +4201,1020 @@ describe('Multi-select', () => {
   )
 })
 
-describe('Form compatibility', () => {
-  it('should be possible to submit a form with a value', async () => {
-    let submits = jest.fn()
+describe('Range selection', () => {
+  function Example({
+    defaultValue = [],
+    onChange,
+  }: {
+    defaultValue?: string[]
+    onChange(value: string[]): void
+  }) {
+    let [value, setValue] = useState<string[]>(defaultValue)
+
+    return (
+      <Listbox
+        value={value}
+        onChange={(value: string[]) => {
+          setValue(value)
+          onChange(value)
+        }}
+        multiple
+      >
+        <Listbox.Button>Trigger</Listbox.Button>
+        <Listbox.Options>
+          <Listbox.Option value="alice">alice</Listbox.Option>
+          <Listbox.Option value="bob">bob</Listbox.Option>
+          <Listbox.Option value="charlie" disabled>
+            charlie
+          </Listbox.Option>
+          <Listbox.Option value="dave">dave</Listbox.Option>
+          <Listbox.Option value="eve">eve</Listbox.Option>
+        </Listbox.Options>
+      </Listbox>
+    )
+  }
 
-    function Example() {
-      let [value, setValue] = useState(null)
-      return (
-        <form
-          onSubmit={(event) => {
-            event.preventDefault()
-            submits([...new FormData(event.currentTarget).entries()])
-          }}
-        >
-          <Listbox value={value} onChange={setValue} name="delivery">
-            <Listbox.Button>Trigger</Listbox.Button>
-            <Listbox.Label>Pizza Delivery</Listbox.Label>
-            <Listbox.Options>
-              <Listbox.Option value="pickup">Pickup</Listbox.Option>
-              <Listbox.Option value="home-delivery">Home delivery</Listbox.Option>
-              <Listbox.Option value="dine-in">Dine in</Listbox.Option>
-            </Listbox.Options>
-          </Listbox>
-          <button>Submit</button>
-        </form>
-      )
-    }
+  it(
+    'should be possible to extend the selection with Shift+Arrow keys',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
 
-    render(<Example />)
+      await click(getListboxButton())
+      await press(Keys.ArrowDown)
+      await press(Keys.Enter)
+      expect(handleChange).toHaveBeenLastCalledWith(['alice'])
 
-    // Open listbox
-    await click(getListboxButton())
+      await press(shift(Keys.ArrowDown))
+      expect(handleChange).toHaveBeenLastCalledWith(['alice', 'bob'])
 
-    // Submit the form
-    await click(getByText('Submit'))
+      // Disabled options are skipped
+      await press(shift(Keys.ArrowDown))
+      assertActiveListboxOption(getListboxOptions()[3])
+      expect(handleChange).toHaveBeenLastCalledWith(['alice', 'bob', 'dave'])
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([]) // no data
+      // The range shrinks when moving back towards the anchor
+      await press(shift(Keys.ArrowUp))
+      expect(handleChange).toHaveBeenLastCalledWith(['alice', 'bob'])
 
-    // Open listbox again
-    await click(getListboxButton())
+      // Once per gesture
+      expect(handleChange).toHaveBeenCalledTimes(4)
+    })
+  )
 
-    // Choose home delivery
-    await click(getByText('Home delivery'))
+  it(
+    'should be possible to select a range with Shift+Click',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
 
-    // Submit the form again
-    await click(getByText('Submit'))
+      await click(getListboxButton())
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+      let options = getListboxOptions()
+      await click(options[1])
+      expect(handleChange).toHaveBeenLastCalledWith(['bob'])
 
-    // Open listbox again
-    await click(getListboxButton())
+      await act(async () => {
+        fireEvent.click(options[4], { shiftKey: true })
+      })
+      expect(handleChange).toHaveBeenCalledTimes(2)
+      expect(handleChange).toHaveBeenLastCalledWith(['bob', 'dave', 'eve'])
+    })
+  )
 
-    // Choose pickup
-    await click(getByText('Pickup'))
+  it(
+    'should be possible to select all options with Ctrl+A',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example defaultValue={['charlie']} onChange={handleChange} />)
 
-    // Submit the form again
-    await click(getByText('Submit'))
+      await click(getListboxButton())
+      await press({ key: 'a', ctrlKey: true })
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([['delivery', 'pickup']])
-  })
+      // Disabled options keep their selection state
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      expect(handleChange).toHaveBeenLastCalledWith(['charlie', 'alice', 'bob', 'dave', 'eve'])
 
-  it('should be possible to submit a form with a complex value object', async () => {
-    let submits = jest.fn()
-    let options = [
-      {
-        id: 1,
-        value: 'pickup',
-        label: 'Pickup',
-        extra: { info: 'Some extra info' },
-      },
-      {
-        id: 2,
-        value: 'home-delivery',
-        label: 'Home delivery',
-        extra: { info: 'Some extra info' },
-      },
-      {
-        id: 3,
-        value: 'dine-in',
-        label: 'Dine in',
-        extra: { info: 'Some extra info' },
-      },
-    ]
+      // It should not start searching
+      assertActiveListboxOption(getListboxOptions()[2])
+    })
+  )
 
-    function Example() {
-      let [value, setValue] = useState(options[0])
+  it(
+    'should be possible to toggle an option with Ctrl+Space without moving the anchor',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
 
-      return (
-        <form
-          onSubmit={(event) => {
-            event.preventDefault()
-            submits([...new FormData(event.currentTarget).entries()])
-          }}
-        >
-          <Listbox value={value} onChange={setValue} name="delivery">
+      await click(getListboxButton())
+      await press(Keys.ArrowDown)
+      await press(Keys.Enter)
+
+      await press(Keys.ArrowDown)
+      await press(Keys.ArrowDown)
+      await press(Keys.ArrowDown)
+      await press({ ...Keys.Space, ctrlKey: true })
+      expect(handleChange).toHaveBeenLastCalledWith(['alice', 'eve'])
+
+      // The range still starts at "alice"
+      await press(shift(Keys.ArrowUp))
+      expect(handleChange).toHaveBeenLastCalledWith(['alice', 'bob', 'dave'])
+    })
+  )
+
+  it(
+    'should compare options using the `by` prop',
+    suppressConsoleLogs(async () => {
+      let people = [
+        { id: 1, name: 'alice' },
+        { id: 2, name: 'bob' },
+        { id: 3, name: 'charlie' },
+      ]
+      let handleChange = jest.fn()
+
+      function Example() {
+        let [value, setValue] = useState([{ id: 2, name: 'bob' }])
+
+        return (
+          <Listbox
+            value={value}
+            onChange={(value) => {
+              setValue(value)
+              handleChange(value)
+            }}
+            by="id"
+            multiple
+          >
             <Listbox.Button>Trigger</Listbox.Button>
-            <Listbox.Label>Pizza Delivery</Listbox.Label>
             <Listbox.Options>
-              {options.map((option) => (
-                <Listbox.Option key={option.id} value={option}>
-                  {option.label}
+              {people.map((person) => (
+                <Listbox.Option key={person.id} value={person}>
+                  {person.name}
                 </Listbox.Option>
               ))}
             </Listbox.Options>
           </Listbox>
-          <button>Submit</button>
-        </form>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getListboxButton())
+
+      // The selected "bob" is a different object, but it should not be selected twice
+      await press(shift(Keys.ArrowDown))
+      expect(handleChange).toHaveBeenLastCalledWith([people[1], people[2]])
+
+      await press({ key: 'a', ctrlKey: true })
+      expect(handleChange).toHaveBeenLastCalledWith(people)
+    })
+  )
+})
+
+describe('Groups', () => {
+  function Example({ onChange = (_: string | null) => {} }) {
+    let [value, setValue] = useState<string | null>(null)
+
+    return (
+      <Listbox
+        value={value}
+        onChange={(value) => {
+          setValue(value)
+          onChange(value)
+        }}
+      >
+        <Listbox.Button>Trigger</Listbox.Button>
+        <Listbox.Options>
+          <Listbox.Group value="fruit">
+            <Listbox.GroupLabel>Fruit</Listbox.GroupLabel>
+            <Listbox.Option value="apple">
+              {({ group }) => <>Apple ({String(group)})</>}
+            </Listbox.Option>
+            <Listbox.Option value="banana">Banana</Listbox.Option>
+          </Listbox.Group>
+          <Listbox.Group value="vegetables">
+            <Listbox.GroupLabel>Vegetables</Listbox.GroupLabel>
+            <Listbox.Option value="carrot">
+              {({ group }) => <>Carrot ({String(group)})</>}
+            </Listbox.Option>
+          </Listbox.Group>
+        </Listbox.Options>
+      </Listbox>
+    )
+  }
+
+  it(
+    'should error when we are using a <Listbox.GroupLabel /> without a parent <Listbox.Group />',
+    suppressConsoleLogs(async () => {
+      expect(() => render(<Listbox.GroupLabel>Fruit</Listbox.GroupLabel>)).toThrowError(
+        '<Listbox.GroupLabel /> is missing a parent <Listbox.Group /> component.'
       )
-    }
+    })
+  )
 
-    render(<Example />)
+  it(
+    'should render groups labelled by their group label',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
 
-    // Open listbox
-    await click(getListboxButton())
+      await click(getListboxButton())
 
-    // Submit the form
-    await click(getByText('Submit'))
+      let groups = Array.from(document.querySelectorAll('[role="group"]'))
+      expect(groups).toHaveLength(2)
+      expect(groups[0]).toHaveAttribute('aria-labelledby', getByText('Fruit')?.id)
+      expect(groups[1]).toHaveAttribute('aria-labelledby', getByText('Vegetables')?.id)
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([
-      ['delivery[id]', '1'],
-      ['delivery[value]', 'pickup'],
-      ['delivery[label]', 'Pickup'],
-      ['delivery[extra][info]', 'Some extra info'],
-    ])
+      // The group labels are not options
+      expect(getListboxOptions()).toHaveLength(3)
+    })
+  )
 
-    // Open listbox
-    await click(getListboxButton())
+  it(
+    'should expose the group in the render prop of the option',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
 
-    // Choose home delivery
-    await click(getByText('Home delivery'))
+      await click(getListboxButton())
 
-    // Submit the form again
-    await click(getByText('Submit'))
+      let options = getListboxOptions()
+      expect(options[0]).toHaveTextContent('Apple (fruit)')
+      expect(options[2]).toHaveTextContent('Carrot (vegetables)')
+    })
+  )
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([
-      ['delivery[id]', '2'],
-      ['delivery[value]', 'home-delivery'],
-      ['delivery[label]', 'Home delivery'],
-      ['delivery[extra][info]', 'Some extra info'],
-    ])
+  it(
+    'should skip the group labels when navigating across groups',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
 
-    // Open listbox
-    await click(getListboxButton())
+      await focus(getListboxButton())
+      await press(Keys.ArrowDown)
 
-    // Choose pickup
-    await click(getByText('Pickup'))
+      let options = getListboxOptions()
+      assertActiveListboxOption(options[0])
 
-    // Submit the form again
-    await click(getByText('Submit'))
+      await press(Keys.ArrowDown)
+      assertActiveListboxOption(options[1])
 
-    // Verify that the form has been submitted
-    expect(submits).lastCalledWith([
-      ['delivery[id]', '1'],
-      ['delivery[value]', 'pickup'],
-      ['delivery[label]', 'Pickup'],
-      ['delivery[extra][info]', 'Some extra info'],
-    ])
-  })
+      await press(Keys.ArrowDown)
+      assertActiveListboxOption(options[2])
+
+      await press(Keys.ArrowUp)
+      assertActiveListboxOption(options[1])
+
+      await press(Keys.ArrowDown)
+      await press(Keys.Enter)
+      expect(handleChange).toHaveBeenCalledWith('carrot')
+    })
+  )
+
+  it(
+    'should skip the group labels when searching',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getListboxButton())
+      await press(Keys.ArrowDown)
+
+      let options = getListboxOptions()
+      assertActiveListboxOption(options[0])
+
+      // Only the group label starts with a "v"
+      await type(word('v'))
+      assertActiveListboxOption(options[0])
+
+      await type(word('c'))
+      assertActiveListboxOption(options[2])
+    })
+  )
+})
+
+describe('Virtualization', () => {
+  let people = Array.from({ length: 1000 }, (_, idx) => `Person ${idx + 1}`)
+
+  function Example({
+    onChange = () => {},
+    disabled,
+  }: {
+    onChange?: (value: string) => void
+    disabled?: (value: string) => boolean
+  }) {
+    let [value, setValue] = useState<string | undefined>(undefined)
+
+    return (
+      <Listbox
+        value={value}
+        onChange={(value) => {
+          setValue(value)
+          onChange(value)
+        }}
+        virtual={{ options: people, disabled }}
+      >
+        <Listbox.Button>Trigger</Listbox.Button>
+        <Listbox.Options>
+          {({ option }) => (
+            <Listbox.Option value={option as string}>{option as string}</Listbox.Option>
+          )}
+        </Listbox.Options>
+      </Listbox>
+    )
+  }
+
+  it(
+    'should only render a window of the options',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getListboxButton())
+
+      assertListbox({ state: ListboxState.Visible })
+
+      let options = getListboxOptions()
+      expect(options.length).toBeGreaterThan(0)
+      expect(options.length).toBeLessThan(people.length)
+
+      // The options know their position in the full list
+      expect(options[0]).toHaveAttribute('aria-setsize', '1000')
+      expect(options[0]).toHaveAttribute('aria-posinset', '1')
+    })
+  )
+
+  it(
+    'should be possible to navigate to options that are not rendered yet',
+    suppressConsoleLogs(async () => {
+      render(<Example disabled={(person) => person === 'Person 999'} />)
+
+      await focus(getListboxButton())
+      await press(Keys.Enter)
+
+      // The first option should be active
+      assertActiveListboxOption(getByText('Person 1'))
+
+      // Go to the last option
+      await press(Keys.End)
+
+      // The last option should be rendered and active
+      assertActiveListboxOption(getByText('Person 1000'))
+      expect(getByText('Person 1')).toBe(null)
+
+      // Disabled options should be skipped
+      await press(Keys.ArrowUp)
+      assertActiveListboxOption(getByText('Person 998'))
+    })
+  )
+
+  it(
+    'should be possible to search for options that are not rendered yet',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getListboxButton())
+
+      await type(word('Person 500'))
+      assertActiveListboxOption(getByText('Person 500'))
+    })
+  )
+
+  it(
+    'should be possible to select an option',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(<Example onChange={handleChange} />)
+
+      await click(getListboxButton())
+      await press(Keys.End)
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenNthCalledWith(1, 'Person 1000')
+      assertListbox({ state: ListboxState.InvisibleUnmounted })
+
+      // Re-opening the listbox should make the selected option active
+      await click(getListboxButton())
+      assertActiveListboxOption(getByText('Person 1000'))
+
+      // Selecting an option by clicking it should work as well
+      await press(Keys.Home)
+      await click(getByText('Person 1'))
+      expect(handleChange).toHaveBeenNthCalledWith(2, 'Person 1')
+    })
+  )
+
+  it(
+    'should not be possible to select a disabled option with the keyboard',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      let { rerender } = render(<Example onChange={handleChange} />)
+
+      await click(getListboxButton())
+      await press(Keys.End)
+      await press(Keys.Enter)
+      expect(handleChange).toHaveBeenCalledTimes(1)
+
+      // The selected option becomes disabled, but it is still the active option when re-opening
+      rerender(<Example onChange={handleChange} disabled={(person) => person === 'Person 1000'} />)
+      await click(getListboxButton())
+      await press(Keys.Enter)
+
+      expect(handleChange).toHaveBeenCalledTimes(1)
+    })
+  )
+
+  it(
+    'should only resolve the text of the options it needs when searching',
+    suppressConsoleLogs(async () => {
+      let textValue = jest.fn((person: string) => person)
+      render(
+        <Listbox value={undefined} onChange={() => {}} virtual={{ options: people, textValue }}>
+          <Listbox.Button>Trigger</Listbox.Button>
+          <Listbox.Options>
+            {({ option }) => (
+              <Listbox.Option value={option as string}>{option as string}</Listbox.Option>
+            )}
+          </Listbox.Options>
+        </Listbox>
+      )
+
+      await click(getListboxButton())
+      await type(word('Person 3'))
+      assertActiveListboxOption(getByText('Person 3'))
+
+      // Every keystroke only looks at the options following the active one until there is a match
+      expect(textValue.mock.calls.length).toBeLessThan(50)
+    })
+  )
+
+  it(
+    'should only resolve the options within the range when selecting a range',
+    suppressConsoleLogs(async () => {
+      let disabled = jest.fn((_person: string) => false)
+      let handleChange = jest.fn()
+      render(
+        <Listbox
+          value={[] as string[]}
+          onChange={handleChange}
+          multiple
+          virtual={{ options: people, disabled }}
+        >
+          <Listbox.Button>Trigger</Listbox.Button>
+          <Listbox.Options>
+            {({ option }) => (
+              <Listbox.Option value={option as string}>{option as string}</Listbox.Option>
+            )}
+          </Listbox.Options>
+        </Listbox>
+      )
+
+      await click(getListboxButton())
+      await press(Keys.ArrowDown)
+      assertActiveListboxOption(getByText('Person 1'))
+
+      disabled.mockClear()
+      await press(shift(Keys.ArrowDown))
+      expect(handleChange).toHaveBeenLastCalledWith(['Person 1', 'Person 2'])
+
+      // Only the options around the active one are checked, not the whole list
+      expect(disabled.mock.calls.length).toBeLessThan(100)
+    })
+  )
+
+  it('should only expose the `option` to the render prop of the Listbox.Options in virtual mode', () => {
+    let slots: unknown[] = []
+    render(
+      <Listbox value="a" onChange={() => {}}>
+        <Listbox.Button>Trigger</Listbox.Button>
+        <Listbox.Options static>
+          {(slot) => {
+            slots.push(slot)
+            return <Listbox.Option value="a">A</Listbox.Option>
+          }}
+        </Listbox.Options>
+      </Listbox>
+    )
+
+    expect(slots[slots.length - 1]).not.toHaveProperty('option')
+  })
+})
+
+describe('Form compatibility', () => {
+  it('should not be possible to submit a form when a required listbox has no value', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox name="delivery" required>
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Options>
+              <Listbox.Option value="pickup">Pickup</Listbox.Option>
+              <Listbox.Option value="home-delivery">Home delivery</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Verify that the form is invalid
+    act(() => void expect(document.querySelector('form')!.reportValidity()).toBe(false))
+
+    // Verify that the control is marked as invalid
+    expect(getListboxButton()).toHaveAttribute('aria-invalid', 'true')
+    expect(getListboxButton()).toHaveAttribute(
+      'data-headlessui-state',
+      expect.stringContaining('invalid')
+    )
+
+    // Verify that the button received focus
+    assertActiveElement(getListboxButton())
+
+    // Choose pickup
+    await click(getListboxButton())
+    await click(getByText('Pickup'))
+    expect(getListboxButton()).not.toHaveAttribute('aria-invalid')
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+  })
+
+  it('should be possible to set a custom validity on a listbox', async () => {
+    function Example() {
+      return (
+        <form>
+          <Listbox name="delivery" defaultValue="pickup" validationMessage="We are closed">
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Options>
+              <Listbox.Option value="pickup">Pickup</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Verify that the form is invalid, even though the listbox has a value
+    act(() => void expect(document.querySelector('form')!.checkValidity()).toBe(false))
+    expect(getListboxButton()).toHaveAttribute('aria-invalid', 'true')
+  })
+
+  it('should reset the listbox to its default value when the form is reset', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox name="delivery" defaultValue="pickup">
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Options>
+              <Listbox.Option value="pickup">Pickup</Listbox.Option>
+              <Listbox.Option value="home-delivery">Home delivery</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button type="reset">Reset</button>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Choose home delivery
+    await click(getListboxButton())
+    await click(getByText('Home delivery'))
+
+    // Reset the form
+    await click(getByText('Reset'))
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the default value has been restored
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+  })
+
+  it('should be possible to submit a form using an uncontrolled listbox', async () => {
+    let submits = jest.fn()
+    let handleChange = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox defaultValue="pickup" onChange={handleChange} name="delivery">
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Options>
+              <Listbox.Option value="pickup">Pickup</Listbox.Option>
+              <Listbox.Option value="home-delivery">Home delivery</Listbox.Option>
+              <Listbox.Option value="dine-in">Dine in</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted with the default value
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Choose home delivery
+    await click(getByText('Home delivery'))
+
+    // Verify that the change has been emitted
+    expect(handleChange).toHaveBeenNthCalledWith(1, 'home-delivery')
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted with the new value
+    expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+  })
+
+  it('should be possible to use an uncontrolled listbox with multiple values', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox name="toppings" multiple>
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Options>
+              <Listbox.Option value="cheese">Cheese</Listbox.Option>
+              <Listbox.Option value="ham">Ham</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Choose both toppings
+    await click(getByText('Cheese'))
+    await click(getByText('Ham'))
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted with both values
+    expect(submits).lastCalledWith([
+      ['toppings[0]', 'cheese'],
+      ['toppings[1]', 'ham'],
+    ])
+  })
+
+  it('should be possible to submit a form with a value', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      let [value, setValue] = useState(null)
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox value={value} onChange={setValue} name="delivery">
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Label>Pizza Delivery</Listbox.Label>
+            <Listbox.Options>
+              <Listbox.Option value="pickup">Pickup</Listbox.Option>
+              <Listbox.Option value="home-delivery">Home delivery</Listbox.Option>
+              <Listbox.Option value="dine-in">Dine in</Listbox.Option>
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([]) // no data
+
+    // Open listbox again
+    await click(getListboxButton())
+
+    // Choose home delivery
+    await click(getByText('Home delivery'))
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+
+    // Open listbox again
+    await click(getListboxButton())
+
+    // Choose pickup
+    await click(getByText('Pickup'))
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([['delivery', 'pickup']])
+  })
+
+  it('should be possible to submit a form with a complex value object', async () => {
+    let submits = jest.fn()
+    let options = [
+      {
+        id: 1,
+        value: 'pickup',
+        label: 'Pickup',
+        extra: { info: 'Some extra info' },
+      },
+      {
+        id: 2,
+        value: 'home-delivery',
+        label: 'Home delivery',
+        extra: { info: 'Some extra info' },
+      },
+      {
+        id: 3,
+        value: 'dine-in',
+        label: 'Dine in',
+        extra: { info: 'Some extra info' },
+      },
+    ]
+
+    function Example() {
+      let [value, setValue] = useState(options[0])
+
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Listbox value={value} onChange={setValue} name="delivery">
+            <Listbox.Button>Trigger</Listbox.Button>
+            <Listbox.Label>Pizza Delivery</Listbox.Label>
+            <Listbox.Options>
+              {options.map((option) => (
+                <Listbox.Option key={option.id} value={option}>
+                  {option.label}
+                </Listbox.Option>
+              ))}
+            </Listbox.Options>
+          </Listbox>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([
+      ['delivery[id]', '1'],
+      ['delivery[value]', 'pickup'],
+      ['delivery[label]', 'Pickup'],
+      ['delivery[extra][info]', 'Some extra info'],
+    ])
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Choose home delivery
+    await click(getByText('Home delivery'))
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([
+      ['delivery[id]', '2'],
+      ['delivery[value]', 'home-delivery'],
+      ['delivery[label]', 'Home delivery'],
+      ['delivery[extra][info]', 'Some extra info'],
+    ])
+
+    // Open listbox
+    await click(getListboxButton())
+
+    // Choose pickup
+    await click(getByText('Pickup'))
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([
+      ['delivery[id]', '1'],
+      ['delivery[value]', 'pickup'],
+      ['delivery[label]', 'Pickup'],
+      ['delivery[extra][info]', 'Some extra info'],
+    ])
+  })
+})
+
+describe('Controlled open state', () => {
+  it(
+    'should be possible to open the Listbox by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Listbox value={undefined} onChange={(x) => console.log(x)} defaultOpen>
+          <Listbox.Button>Trigger</Listbox.Button>
+          <Listbox.Options>
+            <Listbox.Option value="a">Option A</Listbox.Option>
+          </Listbox.Options>
+        </Listbox>
+      )
+
+      assertListboxButton({ state: ListboxState.Visible })
+      assertListbox({ state: ListboxState.Visible })
+    })
+  )
+
+  it(
+    'should call `onOpenChange` with the reason the Listbox opened or closed',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      function Example() {
+        let [value, setValue] = useState<string | undefined>(undefined)
+
+        return (
+          <Listbox value={value} onChange={setValue} onOpenChange={handleOpenChange}>
+            {({ reason }) => (
+              <>
+                <Listbox.Button>{reason ?? 'none'}</Listbox.Button>
+                <Listbox.Options>
+                  <Listbox.Option value="a">Option A</Listbox.Option>
+                  <Listbox.Option value="b">Option B</Listbox.Option>
+                </Listbox.Options>
+              </>
+            )}
+          </Listbox>
+        )
+      }
+
+      render(<Example />)
+      expect(getListboxButton()).toHaveTextContent('none')
+
+      await click(getListboxButton())
+      expect(getListboxButton()).toHaveTextContent('pointer')
+
+      await click(getListboxOptions()[1])
+      expect(getListboxButton()).toHaveTextContent('selection')
+
+      await press(Keys.Enter)
+      expect(getListboxButton()).toHaveTextContent('keyboard')
+
+      await press(Keys.Escape)
+      await click(getListboxButton())
+      await click(document.body)
+      expect(getListboxButton()).toHaveTextContent('outside-click')
+
+      expect(handleOpenChange.mock.calls).toEqual([
+        [true, 'pointer'],
+        [false, 'selection'],
+        [true, 'keyboard'],
+        [false, 'escape'],
+        [true, 'pointer'],
+        [false, 'outside-click'],
+      ])
+    })
+  )
+
+  it(
+    'should only open or close the Listbox when the `open` prop changes',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(false)
+
+        return (
+          <>
+            <Listbox value="a" onChange={() => {}} open={open} onOpenChange={handleOpenChange}>
+              <Listbox.Button>Trigger</Listbox.Button>
+              <Listbox.Options>
+                <Listbox.Option value="a">Option A</Listbox.Option>
+              </Listbox.Options>
+            </Listbox>
+            <button onClick={() => setOpen((open) => !open)}>Toggle</button>
+          </>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getListboxButton())
+      expect(handleOpenChange).toHaveBeenLastCalledWith(true, 'pointer')
+      assertListbox({ state: ListboxState.InvisibleUnmounted })
+
+      await click(getByText('Toggle'))
+      assertListbox({ state: ListboxState.Visible })
+
+      await click(getByText('Toggle'))
+      assertListbox({ state: ListboxState.InvisibleUnmounted })
+    })
+  )
+})
+
+describe('Anchor', () => {
+  it(
+    'should position the Listbox.Options against the Listbox.Button',
+    suppressConsoleLogs(async () => {
+      render(
+        <Listbox value="a" onChange={(x) => console.log(x)}>
+          <Listbox.Button>Trigger</Listbox.Button>
+          <Listbox.Options anchor={{ to: 'bottom', matchWidth: true }}>
+            <Listbox.Option value="a">Option A</Listbox.Option>
+          </Listbox.Options>
+        </Listbox>
+      )
+
+      jest.spyOn(getListboxButton()!, 'getBoundingClientRect').mockReturnValue({
+        left: 100,
+        top: 50,
+        right: 300,
+        bottom: 70,
+        width: 200,
+        height: 20,
+      } as DOMRect)
+
+      await click(getListboxButton())
+      expect(getListbox()).toHaveAttribute('data-anchor', 'bottom')
+      expect(getListbox()).toHaveStyle({ left: '100px', top: '70px', width: '200px' })
+    })
+  )
+})
+
+describe('Modal', () => {
+  it(
+    'should lock the scroll of the page while modal Listbox.Options are open',
+    suppressConsoleLogs(async () => {
+      render(
+        <Listbox value="a" onChange={(x) => console.log(x)}>
+          <Listbox.Button>Trigger</Listbox.Button>
+          <Listbox.Options modal>
+            <Listbox.Option value="a">Option A</Listbox.Option>
+          </Listbox.Options>
+        </Listbox>
+      )
+
+      expect(document.documentElement.style.overflow).toBe('')
+
+      await click(getListboxButton())
+      expect(document.documentElement.style.overflow).toBe('hidden')
+
+      await press(Keys.Escape)
+      expect(document.documentElement.style.overflow).toBe('')
+    })
+  )
 })
@@ -1,5 +1,6 @@
 import React, {
   Fragment,
+  cloneElement,
   createContext,
   createRef,
   useContext,
@@ -14,6 +15,7 @@ import React, {
   KeyboardEvent as ReactKeyboardEvent,
   MouseEvent as ReactMouseEvent,
   MutableRefObject,
+  ReactElement,
   Ref,
 } from 'react'
 
@@ -31,12 +33,22 @@ import { Focus, calculateActiveIndex } from '../../utils/calculate-active-index'
 import { isDisabledReactIssue7711 } from '../../utils/bugs'
 import { isFocusableElement, FocusableMode, sortByDomNode } from '../../utils/focus-management'
 import { useOpenClosed, State, OpenClosedProvider } from '../../internal/open-closed'
+import { useGroup, useGroupLabel, useGroupValue } from '../../internal/group'
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { useOutsideClick } from '../../hooks/use-outside-click'
+import { LayerProvider } from '../../hooks/use-layer'
 import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
+import { FormControl, useInvalid } from '../../internal/form-control'
 import { objectToFormEntries } from '../../utils/form'
 import { getOwnerDocument } from '../../utils/owner'
 import { useEvent } from '../../hooks/use-event'
+import { useControllable } from '../../hooks/use-controllable'
+import { useVirtualizer } from '../../hooks/use-virtualizer'
+import { useOpenChange, OpenChangeReason } from '../../hooks/use-open-change'
+import { useAnchor } from '../../hooks/use-anchor'
+import { useOwnerDocument } from '../../hooks/use-owner'
+import { useScrollLock } from '../../hooks/use-scroll-lock'
+import { AnchorProps } from '../../utils/anchor'
 
 enum ListboxStates {
   Open,
@@ -62,20 +74,31 @@ type ListboxOptionDataRef = MutableRefObject<{
 
 interface StateDefinition {
   listboxState: ListboxStates
+  openChangeReason: OpenChangeReason | null
 
   orientation: 'horizontal' | 'vertical'
 
   propsRef: MutableRefObject<{
     value: unknown
     onChange(value: unknown): void
+    setValue(value: unknown): void
     mode: ValueMode
     compare(a: unknown, z: unknown): boolean
+    virtual: {
+      options: unknown[]
+      disabled(value: unknown): boolean
+      textValue(value: unknown): string
+    } | null
   }>
   labelRef: MutableRefObject<HTMLLabelElement | null>
   buttonRef: MutableRefObject<HTMLButtonElement | null>
   optionsRef: MutableRefObject<HTMLUListElement | null>
 
+  // The option that range selections in multiple mode start from.
+  selectionAnchorRef: MutableRefObject<{ value: unknown } | null>
+
   disabled: boolean
+  invalid: boolean
   options: { id: string; dataRef: ListboxOptionDataRef }[]
   searchQuery: string
   activeOptionIndex: number | null
@@ -87,6 +110,7 @@ enum ActionTypes {
   CloseListbox,
 
   SetDisabled,
+  SetInvalid,
   SetOrientation,
 
   GoToOption,
@@ -127,11 +151,18 @@ function adjustOrderedState(
 }
 
 type Actions =
-  | { type: ActionTypes.CloseListbox }
-  | { type: ActionTypes.OpenListbox }
+  | { type: ActionTypes.CloseListbox; reason: OpenChangeReason | null }
+  | { type: ActionTypes.OpenListbox; reason: OpenChangeReason | null }
   | { type: ActionTypes.SetDisabled; disabled: boolean }
+  | { type: ActionTypes.SetInvalid; invalid: boolean }
   | { type: ActionTypes.SetOrientation; orientation: StateDefinition['orientation'] }
   | { type: ActionTypes.GoToOption; focus: Focus.Specific; id: string; trigger?: ActivationTrigger }
+  | {
+      type: ActionTypes.GoToOption
+      focus: Focus.Specific
+      idx: number
+      trigger?: ActivationTrigger
+    }
   | {
       type: ActionTypes.GoToOption
       focus: Exclude<Focus, Focus.Specific>
@@ -148,20 +179,27 @@ let reducers: {
     action: Extract<Actions, { type: P }>
   ) => StateDefinition
 } = {
-  [ActionTypes.CloseListbox](state) {
+  [ActionTypes.CloseListbox](state, action) {
     if (state.disabled) return state
     if (state.listboxState === ListboxStates.Closed) return state
-    return { ...state, activeOptionIndex: null, listboxState: ListboxStates.Closed }
+    return {
+      ...state,
+      activeOptionIndex: null,
+      listboxState: ListboxStates.Closed,
+      openChangeReason: action.reason,
+    }
   },
-  [ActionTypes.OpenListbox](state) {
+  [ActionTypes.OpenListbox](state, action) {
     if (state.disabled) return state
     if (state.listboxState === ListboxStates.Open) return state
 
     // Check if we have a selected value that we can make active
     let activeOptionIndex = state.activeOptionIndex
-    let { value, mode, compare } = state.propsRef.current
-    let optionIdx = state.options.findIndex((option) => {
-      let optionValue = option.dataRef.current.value
+    let { value, mode, compare, virtual } = state.propsRef.current
+    let optionValues = virtual
+      ? virtual.options
+      : state.options.map((option) => option.dataRef.current.value)
+    let optionIdx = optionValues.findIndex((optionValue) => {
       let selected = match(mode, {
         [ValueMode.Multi]: () =>
           (value as unknown[]).some((option) => compare(option, optionValue)),
@@ -175,12 +213,21 @@ let reducers: {
       activeOptionIndex = optionIdx
     }
 
-    return { ...state, listboxState: ListboxStates.Open, activeOptionIndex }
+    return {
+      ...state,
+      listboxState: ListboxStates.Open,
+      activeOptionIndex,
+      openChangeReason: action.reason,
+    }
   },
   [ActionTypes.SetDisabled](state, action) {
     if (state.disabled === action.disabled) return state
     return { ...state, disabled: action.disabled }
   },
+  [ActionTypes.SetInvalid](state, action) {
+    if (state.invalid === action.invalid) return state
+    return { ...state, invalid: action.invalid }
+  },
   [ActionTypes.SetOrientation](state, action) {
     if (state.orientation === action.orientation) return state
     return { ...state, orientation: action.orientation }
@@ -189,6 +236,34 @@ let reducers: {
     if (state.disabled) return state
     if (state.listboxState === ListboxStates.Closed) return state
 
+    // Virtual options are not registered, so we can skip sorting them and work with the indexes of
+    // the provided data directly.
+    let { virtual } = state.propsRef.current
+    if (virtual) {
+      let activeOptionIndex =
+        action.focus === Focus.Specific
+          ? 'idx' in action
+            ? action.idx
+            : state.activeOptionIndex
+          : calculateActiveIndex(action, {
+              resolveItems: () => virtual!.options,
+              resolveActiveIndex: () => state.activeOptionIndex,
+              resolveId: () => {
+                throw new Error('Virtual options should be focused by their index.')
+              },
+              resolveDisabled: virtual.disabled,
+            })
+
+      return {
+        ...state,
+        searchQuery: '',
+        activeOptionIndex,
+        activationTrigger: action.trigger ?? ActivationTrigger.Other,
+      }
+    }
+
+    if ('idx' in action) return state
+
     let adjustedState = adjustOrderedState(state)
     let activeOptionIndex = calculateActiveIndex(action, {
       resolveItems: () => adjustedState.options,
@@ -214,20 +289,29 @@ let reducers: {
 
     let searchQuery = state.searchQuery + action.value.toLowerCase()
 
-    let reOrderedOptions =
-      state.activeOptionIndex !== null
-        ? state.options
-            .slice(state.activeOptionIndex + offset)
-            .concat(state.options.slice(0, state.activeOptionIndex + offset))
-        : state.options
+    // Virtual options can be a large data source, so we only look at the options one by one,
+    // starting at the active option, until we find a match.
+    let { virtual } = state.propsRef.current
+    let matches = (idx: number) => {
+      if (virtual) {
+        let option = virtual.options[idx]
+        if (virtual.disabled(option)) return false
+        return virtual.textValue(option).toLowerCase().startsWith(searchQuery)
+      }
 
-    let matchingOption = reOrderedOptions.find(
-      (option) =>
-        !option.dataRef.current.disabled &&
-        option.dataRef.current.textValue?.startsWith(searchQuery)
-    )
+      let option = state.options[idx].dataRef.current
+      return !option.disabled && (option.textValue?.startsWith(searchQuery) ?? false)
+    }
 
-    let matchIdx = matchingOption ? state.options.indexOf(matchingOption) : -1
+    let count = resolveOptionsCount(state)
+    let start = state.activeOptionIndex !== null ? state.activeOptionIndex + offset : 0
+    let matchIdx = -1
+    for (let i = 0; i < count; i++) {
+      let idx = (start + i) % count
+      if (!matches(idx)) continue
+      matchIdx = idx
+      break
+    }
 
     if (matchIdx === -1 || matchIdx === state.activeOptionIndex) return { ...state, searchQuery }
     return {
@@ -295,12 +379,97 @@ function stateReducer(state: StateDefinition, action: Actions) {
   return match(action.type, reducers, state, action)
 }
 
+function resolveOpenChange(action: Actions) {
+  if (action.type === ActionTypes.OpenListbox) return { open: true, reason: action.reason }
+  if (action.type === ActionTypes.CloseListbox) return { open: false, reason: action.reason }
+  return null
+}
+
+function createOpenChangeAction(open: boolean, reason: OpenChangeReason | null): Actions {
+  return open
+    ? { type: ActionTypes.OpenListbox, reason }
+    : { type: ActionTypes.CloseListbox, reason }
+}
+
+// Virtual options can be a large data source, so these helpers only resolve the options they need
+// instead of building the data for all of them.
+function resolveOptionsCount(state: StateDefinition) {
+  let { virtual } = state.propsRef.current
+  return virtual ? virtual.options.length : state.options.length
+}
+
+function resolveOption(state: StateDefinition, idx: number) {
+  let { virtual } = state.propsRef.current
+  if (virtual) {
+    let value = virtual.options[idx]
+    return { value, disabled: virtual.disabled(value) }
+  }
+
+  let { dataRef } = state.options[idx]
+  return { value: dataRef.current.value, disabled: dataRef.current.disabled }
+}
+
+function findOptionIndex(state: StateDefinition, value: unknown) {
+  let { virtual, compare } = state.propsRef.current
+  if (virtual) return virtual.options.findIndex((option) => compare(option, value))
+  return state.options.findIndex(({ dataRef }) => compare(dataRef.current.value, value))
+}
+
+// The enabled options between both indexes, including both ends.
+function resolveEnabledValues(state: StateDefinition, from: number, to: number) {
+  let values: unknown[] = []
+  for (let idx = from; idx <= to; idx++) {
+    let option = resolveOption(state, idx)
+    if (!option.disabled) values.push(option.value)
+  }
+  return values
+}
+
+function setSelectionAnchor(state: StateDefinition, idx: number | null) {
+  let option = idx === null ? undefined : resolveOption(state, idx)
+  state.selectionAnchorRef.current = option ? { value: option.value } : null
+}
+
+// Replaces the selection in multiple mode. Disabled options can't be (de)selected by the user, and
+// we don't know anything about values that are not part of the options, so we keep those as-is.
+function replaceSelection(state: StateDefinition, values: unknown[]) {
+  let { value, compare, setValue } = state.propsRef.current
+
+  let kept = (value as unknown[]).filter((selected) => {
+    let idx = findOptionIndex(state, selected)
+    return idx === -1 || resolveOption(state, idx).disabled
+  })
+
+  setValue([...kept, ...values.filter((value) => !kept.some((other) => compare(other, value)))])
+}
+
+function selectRange(state: StateDefinition, idx: number) {
+  let anchor = state.selectionAnchorRef.current
+  let anchorIdx = anchor ? findOptionIndex(state, anchor.value) : -1
+
+  if (anchorIdx === -1) {
+    anchorIdx = idx
+    setSelectionAnchor(state, idx)
+  }
+
+  replaceSelection(
+    state,
+    resolveEnabledValues(state, Math.min(anchorIdx, idx), Math.max(anchorIdx, idx))
+  )
+}
+
+function selectAll(state: StateDefinition) {
+  replaceSelection(state, resolveEnabledValues(state, 0, resolveOptionsCount(state) - 1))
+}
+
 // ---
 
 let DEFAULT_LISTBOX_TAG = Fragment
 interface ListboxRenderPropArg {
   open: boolean
+  reason: OpenChangeReason | null
   disabled: boolean
+  invalid: boolean
 }
 
 let ListboxRoot = forwardRefWithAs(function Listbox<
@@ -311,33 +480,71 @@ let ListboxRoot = forwardRefWithAs(function Listbox<
   props: Props<
     TTag,
     ListboxRenderPropArg,
-    'value' | 'onChange' | 'disabled' | 'horizontal' | 'name' | 'multiple' | 'by'
+    | 'value'
+    | 'defaultValue'
+    | 'onChange'
+    | 'disabled'
+    | 'horizontal'
+    | 'name'
+    | 'multiple'
+    | 'by'
+    | 'virtual'
+    | 'required'
+    | 'validationMessage'
+    | 'open'
+    | 'defaultOpen'
+    | 'onOpenChange'
   > & {
-    value: TType
-    onChange(value: TType): void
-    by?: (keyof TType & string) | ((a: TType, z: TType) => boolean)
+    value?: TType
+    defaultValue?: TType
+    onChange?(value: TType): void
+    by?: (keyof TActualType & string) | ((a: TActualType, z: TActualType) => boolean)
     disabled?: boolean
     horizontal?: boolean
     name?: string
+    required?: boolean
+    validationMessage?: string
     multiple?: boolean
+    virtual?: {
+      options: TActualType[]
+      disabled?(value: TActualType): boolean
+      textValue?(value: TActualType): string
+    } | null
+    open?: boolean
+    defaultOpen?: boolean
+    onOpenChange?(open: boolean, reason: OpenChangeReason | null): void
   },
   ref: Ref<TTag>
 ) {
   let {
-    value,
+    value: controlledValue,
+    defaultValue,
     name,
-    onChange,
+    onChange: controlledOnChange,
     by = (a, z) => a === z,
     disabled = false,
     horizontal = false,
     multiple = false,
+    virtual = null,
+    required = false,
+    validationMessage,
+    open: controlledOpen,
+    defaultOpen = false,
+    onOpenChange,
     ...theirProps
   } = props
   const orientation = horizontal ? 'horizontal' : 'vertical'
+  let [value = (multiple ? [] : undefined) as unknown as TType, onChange] = useControllable<TType>(
+    controlledValue,
+    controlledOnChange,
+    defaultValue
+  )
+  let initialValue = useRef(value)
   let listboxRef = useSyncRefs(ref)
 
-  let reducerBag = useReducer(stateReducer, {
-    listboxState: ListboxStates.Closed,
+  let [state, internalDispatch] = useReducer(stateReducer, {
+    listboxState: controlledOpen ?? defaultOpen ? ListboxStates.Open : ListboxStates.Closed,
+    openChangeReason: null,
     propsRef: {
       current: {
         value,
@@ -345,28 +552,53 @@ let ListboxRoot = forwardRefWithAs(function Listbox<
         mode: multiple ? ValueMode.Multi : ValueMode.Single,
         compare: useEvent(
           typeof by === 'string'
-            ? (a: TType, z: TType) => {
-                let property = by as unknown as keyof TType
+            ? (a: TActualType, z: TActualType) => {
+                let property = by as unknown as keyof TActualType
                 return a[property] === z[property]
               }
             : by
         ),
+        virtual: null,
+        setValue: onChange,
       },
     },
     labelRef: createRef(),
     buttonRef: createRef(),
     optionsRef: createRef(),
+    selectionAnchorRef: createRef(),
     disabled,
+    invalid: false,
     orientation,
     options: [],
     searchQuery: '',
     activeOptionIndex: null,
     activationTrigger: ActivationTrigger.Other,
   } as StateDefinition)
-  let [{ listboxState, propsRef, optionsRef, buttonRef }, dispatch] = reducerBag
+  let { listboxState, openChangeReason, propsRef, optionsRef, buttonRef } = state
+  let dispatch = useOpenChange<Actions>({
+    open: listboxState === ListboxStates.Open,
+    controlledOpen,
+    onOpenChange,
+    dispatch: internalDispatch,
+    resolveOpenChange,
+    createAction: createOpenChangeAction,
+  })
+  let reducerBag = useMemo<[StateDefinition, Dispatch<Actions>]>(
+    () => [state, dispatch],
+    [state, dispatch]
+  )
 
   propsRef.current.value = value
+  propsRef.current.setValue = onChange as (value: unknown) => void
   propsRef.current.mode = multiple ? ValueMode.Multi : ValueMode.Single
+  propsRef.current.virtual = virtual
+    ? {
+        options: virtual.options,
+        disabled: (value) => virtual!.disabled?.(value as TActualType) ?? false,
+        textValue: (value) =>
+          virtual!.textValue?.(value as TActualType) ?? (typeof value === 'string' ? value : ''),
+      }
+    : null
 
   useIsoMorphicEffect(() => {
     propsRef.current.onChange = (value: unknown) => {
@@ -396,10 +628,10 @@ let ListboxRoot = forwardRefWithAs(function Listbox<
   )
 
   // Handle outside click
-  useOutsideClick(
+  let [layer] = useOutsideClick(
     [buttonRef, optionsRef],
     (event, target) => {
-      dispatch({ type: ActionTypes.CloseListbox })
+      dispatch({ type: ActionTypes.CloseListbox, reason: 'outside-click' })
 
       if (!isFocusableElement(target, FocusableMode.Loose)) {
         event.preventDefault()
@@ -409,40 +641,69 @@ let ListboxRoot = forwardRefWithAs(function Listbox<
     listboxState === ListboxStates.Open
   )
 
+  let filled = multiple ? (value as unknown as unknown[]).length > 0 : value != null
+  let [invalid, markInvalid] = useInvalid({ filled, required, validationMessage })
+  useIsoMorphicEffect(() => dispatch({ type: ActionTypes.SetInvalid, invalid }), [invalid])
+
+  let handleInvalid = useEvent((shouldFocus: boolean) => {
+    markInvalid()
+    if (shouldFocus) buttonRef.current?.focus()
+  })
+  let handleReset = useEvent(() => {
+    if (value === initialValue.current) return
+    onChange(initialValue.current)
+  })
+
   let slot = useMemo<ListboxRenderPropArg>(
-    () => ({ open: listboxState === ListboxStates.Open, disabled }),
-    [listboxState, disabled]
+    () => ({
+      open: listboxState === ListboxStates.Open,
+      reason: openChangeReason,
+      disabled,
+      invalid,
+    }),
+    [listboxState, openChangeReason, disabled, invalid]
   )
 
   let ourProps = { ref: listboxRef }
 
   return (
-    <ListboxContext.Provider value={reducerBag}>
-      <OpenClosedProvider
-        value={match(listboxState, {
-          [ListboxStates.Open]: State.Open,
-          [ListboxStates.Closed]: State.Closed,
-        })}
-      >
-        {name != null &&
-          value != null &&
-          objectToFormEntries({ [name]: value }).map(([name, value]) => (
-            <Hidden
-              features={HiddenFeatures.Hidden}
-              {...compact({
-                key: name,
-                as: 'input',
-                type: 'hidden',
-                hidden: true,
-                readOnly: true,
-                name,
-                value,
-              })}
+    <LayerProvider value={layer}>
+      <ListboxContext.Provider value={reducerBag}>
+        <OpenClosedProvider
+          value={match(listboxState, {
+            [ListboxStates.Open]: State.Open,
+            [ListboxStates.Closed]: State.Closed,
+          })}
+        >
+          {name != null &&
+            value != null &&
+            objectToFormEntries({ [name]: value }).map(([name, value]) => (
+              <Hidden
+                features={HiddenFeatures.Hidden}
+                {...compact({
+                  key: name,
+                  as: 'input',
+                  type: 'hidden',
+                  hidden: true,
+                  readOnly: true,
+                  name,
+                  value,
+                })}
+              />
+            ))}
+          {(name != null || required) && (
+            <FormControl
+              filled={filled}
+              required={required}
+              validationMessage={validationMessage}
+              onInvalid={handleInvalid}
+              onReset={handleReset}
             />
-          ))}
-        {render({ ourProps, theirProps, slot, defaultTag: DEFAULT_LISTBOX_TAG, name: 'Listbox' })}
-      </OpenClosedProvider>
-    </ListboxContext.Provider>
+          )}
+          {render({ ourProps, theirProps, slot, defaultTag: DEFAULT_LISTBOX_TAG, name: 'Listbox' })}
+        </OpenClosedProvider>
+      </ListboxContext.Provider>
+    </LayerProvider>
   )
 })
 
@@ -452,6 +713,7 @@ let DEFAULT_BUTTON_TAG = 'button' as const
 interface ButtonRenderPropArg {
   open: boolean
   disabled: boolean
+  invalid: boolean
 }
 type ButtonPropsWeControl =
   | 'id'
@@ -459,6 +721,7 @@ type ButtonPropsWeControl =
   | 'aria-haspopup'
   | 'aria-controls'
   | 'aria-expanded'
+  | 'aria-invalid'
   | 'aria-labelledby'
   | 'disabled'
   | 'onKeyDown'
@@ -482,7 +745,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
       case Keys.Enter:
       case Keys.ArrowDown:
         event.preventDefault()
-        dispatch({ type: ActionTypes.OpenListbox })
+        dispatch({ type: ActionTypes.OpenListbox, reason: 'keyboard' })
         d.nextFrame(() => {
           if (!state.propsRef.current.value)
             dispatch({ type: ActionTypes.GoToOption, focus: Focus.First })
@@ -491,7 +754,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
 
       case Keys.ArrowUp:
         event.preventDefault()
-        dispatch({ type: ActionTypes.OpenListbox })
+        dispatch({ type: ActionTypes.OpenListbox, reason: 'keyboard' })
         d.nextFrame(() => {
           if (!state.propsRef.current.value)
             dispatch({ type: ActionTypes.GoToOption, focus: Focus.Last })
@@ -514,11 +777,11 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   let handleClick = useEvent((event: ReactMouseEvent) => {
     if (isDisabledReactIssue7711(event.currentTarget)) return event.preventDefault()
     if (state.listboxState === ListboxStates.Open) {
-      dispatch({ type: ActionTypes.CloseListbox })
+      dispatch({ type: ActionTypes.CloseListbox, reason: 'pointer' })
       d.nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
     } else {
       event.preventDefault()
-      dispatch({ type: ActionTypes.OpenListbox })
+      dispatch({ type: ActionTypes.OpenListbox, reason: 'pointer' })
     }
   })
 
@@ -528,7 +791,11 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   }, [state.labelRef.current, id])
 
   let slot = useMemo<ButtonRenderPropArg>(
-    () => ({ open: state.listboxState === ListboxStates.Open, disabled: state.disabled }),
+    () => ({
+      open: state.listboxState === ListboxStates.Open,
+      disabled: state.disabled,
+      invalid: state.invalid,
+    }),
     [state]
   )
   let theirProps = props
@@ -539,6 +806,7 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
     'aria-haspopup': true,
     'aria-controls': state.optionsRef.current?.id,
     'aria-expanded': state.disabled ? undefined : state.listboxState === ListboxStates.Open,
+    'aria-invalid': state.invalid ? true : undefined,
     'aria-labelledby': labelledby,
     disabled: state.disabled,
     onKeyDown: handleKeyDown,
@@ -595,6 +863,7 @@ let Label = forwardRefWithAs(function Label<TTag extends ElementType = typeof DE
 let DEFAULT_OPTIONS_TAG = 'ul' as const
 interface OptionsRenderPropArg {
   open: boolean
+  option?: unknown
 }
 type OptionsPropsWeControl =
   | 'aria-activedescendant'
@@ -610,10 +879,14 @@ let OptionsRenderFeatures = Features.RenderStrategy | Features.Static
 let Options = forwardRefWithAs(function Options<
   TTag extends ElementType = typeof DEFAULT_OPTIONS_TAG
 >(
-  props: Props<TTag, OptionsRenderPropArg, OptionsPropsWeControl> &
-    PropsForFeatures<typeof OptionsRenderFeatures>,
+  props: Props<TTag, OptionsRenderPropArg, OptionsPropsWeControl | 'anchor' | 'modal'> &
+    PropsForFeatures<typeof OptionsRenderFeatures> & {
+      anchor?: AnchorProps
+      modal?: boolean
+    },
   ref: Ref<HTMLElement>
 ) {
+  let { anchor: anchorProp, modal = false, ...theirProps } = props
   let [state, dispatch] = useListboxContext('Listbox.Options')
   let optionsRef = useSyncRefs(state.optionsRef, ref)
 
@@ -630,6 +903,17 @@ let Options = forwardRefWithAs(function Options<
     return state.listboxState === ListboxStates.Open
   })()
 
+  let anchor = useAnchor({
+    anchor: anchorProp,
+    enabled: visible,
+    referenceRef: state.buttonRef,
+    floatingRef: state.optionsRef,
+  })
+
+  // Modal Listbox.Options lock the scroll of the page, but can still scroll themselves
+  let ownerDocument = useOwnerDocument(state.optionsRef)
+  useScrollLock(ownerDocument, visible && modal, () => [state.optionsRef.current])
+
   useEffect(() => {
     let container = state.optionsRef.current
     if (!container) return
@@ -639,15 +923,35 @@ let Options = forwardRefWithAs(function Options<
     container.focus({ preventScroll: true })
   }, [state.listboxState, state.optionsRef])
 
+  // Shift+Arrow extends the selection to the option that becomes active, which we only know once
+  // the state is updated.
+  let extendSelection = useRef(false)
+  useIsoMorphicEffect(() => {
+    if (!extendSelection.current) return
+    extendSelection.current = false
+
+    if (state.activeOptionIndex === null) return
+    selectRange(state, state.activeOptionIndex)
+  }, [state])
+
+  function startRangeSelection() {
+    if (state.selectionAnchorRef.current === null) {
+      setSelectionAnchor(state, state.activeOptionIndex)
+    }
+    extendSelection.current = true
+  }
+
   let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLUListElement>) => {
     searchDisposables.dispose()
 
+    let isMulti = state.propsRef.current.mode === ValueMode.Multi
+
     switch (event.key) {
       // Ref: https://www.w3.org/TR/wai-aria-practices-1.2/#keyboard-interaction-12
 
       // @ts-expect-error Fallthrough is expected here
       case Keys.Space:
-        if (state.searchQuery !== '') {
+        if (state.searchQuery !== '' && !event.ctrlKey) {
           event.preventDefault()
           event.stopPropagation()
           return dispatch({ type: ActionTypes.Search, value: event.key })
@@ -657,12 +961,26 @@ let Options = forwardRefWithAs(function Options<
         event.preventDefault()
         event.stopPropagation()
 
-        if (state.activeOptionIndex !== null) {
+        if (isMulti && event.shiftKey) {
+          if (state.activeOptionIndex !== null) selectRange(state, state.activeOptionIndex)
+          break
+        }
+
+        // Ctrl+Space toggles the active option without moving the anchor of range selections.
+        if (isMulti && !event.ctrlKey) {
+          setSelectionAnchor(state, state.activeOptionIndex)
+        }
+
+        if (state.activeOptionIndex !== null && state.propsRef.current.virtual) {
+          let { options, disabled } = state.propsRef.current.virtual
+          let option = options[state.activeOptionIndex]
+          if (!disabled(option)) state.propsRef.current.onChange(option)
+        } else if (state.activeOptionIndex !== null) {
           let { dataRef } = state.options[state.activeOptionIndex]
           state.propsRef.current.onChange(dataRef.current.value)
         }
         if (state.propsRef.current.mode === ValueMode.Single) {
-          dispatch({ type: ActionTypes.CloseListbox })
+          dispatch({ type: ActionTypes.CloseListbox, reason: 'selection' })
           disposables().nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
         }
         break
@@ -670,11 +988,13 @@ let Options = forwardRefWithAs(function Options<
       case match(state.orientation, { vertical: Keys.ArrowDown, horizontal: Keys.ArrowRight }):
         event.preventDefault()
         event.stopPropagation()
+        if (isMulti && event.shiftKey) startRangeSelection()
         return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Next })
 
       case match(state.orientation, { vertical: Keys.ArrowUp, horizontal: Keys.ArrowLeft }):
         event.preventDefault()
         event.stopPropagation()
+        if (isMulti && event.shiftKey) startRangeSelection()
         return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Previous })
 
       case Keys.Home:
@@ -692,7 +1012,7 @@ let Options = forwardRefWithAs(function Options<
       case Keys.Escape:
         event.preventDefault()
         event.stopPropagation()
-        dispatch({ type: ActionTypes.CloseListbox })
+        dispatch({ type: ActionTypes.CloseListbox, reason: 'escape' })
         return d.nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
 
       case Keys.Tab:
@@ -701,6 +1021,13 @@ let Options = forwardRefWithAs(function Options<
         break
 
       default:
+        if (isMulti && (event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'a') {
+          event.preventDefault()
+          event.stopPropagation()
+          selectAll(state)
+          break
+        }
+
         if (event.key.length === 1) {
           dispatch({ type: ActionTypes.Search, value: event.key })
           searchDisposables.setTimeout(() => dispatch({ type: ActionTypes.ClearSearch }), 350)
@@ -719,18 +1046,34 @@ let Options = forwardRefWithAs(function Options<
     [state]
   )
 
-  let theirProps = props
+  let { virtual } = state.propsRef.current
+
   let ourProps = {
     'aria-activedescendant':
-      state.activeOptionIndex === null ? undefined : state.options[state.activeOptionIndex]?.id,
+      state.activeOptionIndex === null
+        ? undefined
+        : virtual
+        ? resolveVirtualOptionId(id, state.activeOptionIndex)
+        : state.options[state.activeOptionIndex]?.id,
     'aria-multiselectable': state.propsRef.current.mode === ValueMode.Multi ? true : undefined,
     'aria-labelledby': labelledby,
     'aria-orientation': state.orientation,
+    'data-anchor': anchor.placement,
     id,
+    style: anchor.style ? { ...anchor.style, ...theirProps.style } : theirProps.style,
     onKeyDown: handleKeyDown,
     role: 'listbox',
     tabIndex: 0,
     ref: optionsRef,
+    ...(virtual
+      ? {
+          children: (
+            <VirtualProvider id={id} slot={slot}>
+              {props.children as (bag: OptionsRenderPropArg) => ReactElement}
+            </VirtualProvider>
+          ),
+        }
+      : {}),
   }
 
   return render({
@@ -746,11 +1089,138 @@ let Options = forwardRefWithAs(function Options<
 
 // ---
 
+let DEFAULT_GROUP_TAG = 'div' as const
+interface GroupRenderPropArg {}
+type GroupPropsWeControl = 'role' | 'aria-labelledby'
+
+let Group = forwardRefWithAs(function Group<TTag extends ElementType = typeof DEFAULT_GROUP_TAG>(
+  props: Props<TTag, GroupRenderPropArg, GroupPropsWeControl | 'value'> & {
+    value?: unknown
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { value, ...theirProps } = props
+  useListboxContext('Listbox.Group')
+
+  let [groupProps, GroupProvider] = useGroup()
+
+  let slot = useMemo<GroupRenderPropArg>(() => ({}), [])
+  let ourProps = { ref, ...groupProps }
+
+  return (
+    <GroupProvider value={value}>
+      {render({
+        ourProps,
+        theirProps,
+        slot,
+        defaultTag: DEFAULT_GROUP_TAG,
+        name: 'Listbox.Group',
+      })}
+    </GroupProvider>
+  )
+})
+
+// ---
+
+let DEFAULT_GROUP_LABEL_TAG = 'div' as const
+interface GroupLabelRenderPropArg {}
+type GroupLabelPropsWeControl = 'id' | 'role'
+
+let GroupLabel = forwardRefWithAs(function GroupLabel<
+  TTag extends ElementType = typeof DEFAULT_GROUP_LABEL_TAG
+>(props: Props<TTag, GroupLabelRenderPropArg, GroupLabelPropsWeControl>, ref: Ref<HTMLElement>) {
+  let labelProps = useGroupLabel('Listbox.GroupLabel', 'Listbox.Group', 'listbox-group-label')
+
+  let slot = useMemo<GroupLabelRenderPropArg>(() => ({}), [])
+  let theirProps = props
+  let ourProps = { ref, ...labelProps }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_GROUP_LABEL_TAG,
+    name: 'Listbox.GroupLabel',
+  })
+})
+
+// ---
+
+let VirtualContext = createContext<{
+  index: number
+  id: string
+  measure(element: HTMLElement | null): void
+} | null>(null)
+VirtualContext.displayName = 'VirtualContext'
+
+function resolveVirtualOptionId(optionsId: string, idx: number) {
+  return `${optionsId}-option-${idx}`
+}
+
+function VirtualProvider({
+  id,
+  slot,
+  children,
+}: {
+  id: string
+  slot: OptionsRenderPropArg
+  children: (bag: OptionsRenderPropArg) => ReactElement
+}) {
+  let [state] = useListboxContext('Listbox.Options')
+  let { options } = state.propsRef.current.virtual!
+
+  let { items, totalSize, measure, scrollToIndex } = useVirtualizer({
+    count: options.length,
+    scrollRef: state.optionsRef,
+    enabled: state.listboxState === ListboxStates.Open,
+  })
+
+  // The active option is not guaranteed to be rendered, so we have to scroll to it ourselves
+  // instead of relying on the option to scroll itself into view.
+  useEffect(() => {
+    if (state.listboxState !== ListboxStates.Open) return
+    if (state.activeOptionIndex === null) return
+    if (state.activationTrigger === ActivationTrigger.Pointer) return
+    scrollToIndex(state.activeOptionIndex)
+  }, [state.listboxState, state.activeOptionIndex, state.activationTrigger, scrollToIndex])
+
+  return (
+    <div role="none" style={{ position: 'relative', width: '100%', height: totalSize }}>
+      {items.map(({ index, start }) => {
+        let option = children({ ...slot, option: options[index] })
+
+        return (
+          <VirtualContext.Provider
+            key={index}
+            value={{ index, id: resolveVirtualOptionId(id, index), measure }}
+          >
+            {cloneElement(option, {
+              'aria-setsize': options.length,
+              'aria-posinset': index + 1,
+              style: {
+                ...option.props.style,
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                transform: `translateY(${start}px)`,
+              },
+            })}
+          </VirtualContext.Provider>
+        )
+      })}
+    </div>
+  )
+}
+
+// ---
+
 let DEFAULT_OPTION_TAG = 'li' as const
 interface OptionRenderPropArg {
   active: boolean
   selected: boolean
   disabled: boolean
+  group: unknown
 }
 type ListboxOptionPropsWeControl =
   | 'id'
@@ -776,11 +1246,21 @@ let Option = forwardRefWithAs(function Option<
   },
   ref: Ref<HTMLElement>
 ) {
-  let { disabled = false, value, ...theirProps } = props
+  let { disabled: theirDisabled = false, value, ...theirProps } = props
   let [state, dispatch] = useListboxContext('Listbox.Option')
-  let id = `headlessui-listbox-option-${useId()}`
-  let active =
-    state.activeOptionIndex !== null ? state.options[state.activeOptionIndex].id === id : false
+  let virtual = useContext(VirtualContext)
+  let group = useGroupValue()
+
+  let internalId = `headlessui-listbox-option-${useId()}`
+  let id = virtual?.id ?? internalId
+  let disabled = virtual
+    ? theirDisabled || state.propsRef.current.virtual!.disabled(value)
+    : theirDisabled
+  let active = virtual
+    ? state.activeOptionIndex === virtual.index
+    : state.activeOptionIndex !== null
+    ? state.options[state.activeOptionIndex].id === id
+    : false
 
   let { value: optionValue, compare } = state.propsRef.current
 
@@ -790,11 +1270,12 @@ let Option = forwardRefWithAs(function Option<
   })
 
   let internalOptionRef = useRef<HTMLLIElement | null>(null)
-  let optionRef = useSyncRefs(ref, internalOptionRef)
+  let optionRef = useSyncRefs(ref, internalOptionRef, virtual ? virtual.measure : null)
 
   useIsoMorphicEffect(() => {
     if (state.listboxState !== ListboxStates.Open) return
     if (!active) return
+    if (virtual) return
     if (state.activationTrigger === ActivationTrigger.Pointer) return
     let d = disposables()
     d.requestAnimationFrame(() => {
@@ -818,27 +1299,46 @@ let Option = forwardRefWithAs(function Option<
   let select = useEvent(() => state.propsRef.current.onChange(value))
 
   useIsoMorphicEffect(() => {
+    if (virtual) return
     dispatch({ type: ActionTypes.RegisterOption, id, dataRef: bag })
     return () => dispatch({ type: ActionTypes.UnregisterOption, id })
   }, [bag, id])
 
-  let handleClick = useEvent((event: { preventDefault: Function }) => {
+  let handleClick = useEvent((event: ReactMouseEvent) => {
     if (disabled) return event.preventDefault()
+
+    if (state.propsRef.current.mode === ValueMode.Multi) {
+      let idx = virtual ? virtual.index : state.options.findIndex((option) => option.id === id)
+      if (event.shiftKey) return selectRange(state, idx)
+      setSelectionAnchor(state, idx)
+    }
+
     select()
     if (state.propsRef.current.mode === ValueMode.Single) {
-      dispatch({ type: ActionTypes.CloseListbox })
+      dispatch({ type: ActionTypes.CloseListbox, reason: 'selection' })
       disposables().nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
     }
   })
 
   let handleFocus = useEvent(() => {
     if (disabled) return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Nothing })
+    if (virtual) {
+      return dispatch({ type: ActionTypes.GoToOption, focus: Focus.Specific, idx: virtual.index })
+    }
     dispatch({ type: ActionTypes.GoToOption, focus: Focus.Specific, id })
   })
 
   let handleMove = useEvent(() => {
     if (disabled) return
     if (active) return
+    if (virtual) {
+      return dispatch({
+        type: ActionTypes.GoToOption,
+        focus: Focus.Specific,
+        idx: virtual.index,
+        trigger: ActivationTrigger.Pointer,
+      })
+    }
     dispatch({
       type: ActionTypes.GoToOption,
       focus: Focus.Specific,
@@ -854,8 +1354,8 @@ let Option = forwardRefWithAs(function Option<
   })
 
   let slot = useMemo<OptionRenderPropArg>(
-    () => ({ active, selected, disabled }),
-    [active, selected, disabled]
+    () => ({ active, selected, disabled, group }),
+    [active, selected, disabled, group]
   )
   let ourProps = {
     id,
@@ -887,4 +1387,11 @@ let Option = forwardRefWithAs(function Option<
 
 // ---
 
-export let Listbox = Object.assign(ListboxRoot, { Button, Label, Options, Option })
+export let Listbox = Object.assign(ListboxRoot, {
+  Button,
+  Label,
+  Options,
+  Option,
+  Group,
+  GroupLabel,
+})
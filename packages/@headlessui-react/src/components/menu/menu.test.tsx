@@ -1,5 +1,5 @@
-import React, { createElement, useEffect } from 'react'
-import { render } from '@testing-library/react'
+import React, { createElement, useEffect, useState } from 'react'
+import { render, act, fireEvent } from '@testing-library/react'
 
 import { Menu } from './menu'
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
@@ -32,6 +32,7 @@ import {
   MouseButton,
 } from '../../test-utils/interactions'
 import { Transition } from '../transitions/transition'
+import { Portal } from '../portal/portal'
 
 jest.mock('../../hooks/use-id')
 
@@ -47,6 +48,9 @@ describe('Safe guards', () => {
     ['Menu.Button', Menu.Button],
     ['Menu.Items', Menu.Items],
     ['Menu.Item', Menu.Item],
+    ['Menu.CheckboxItem', Menu.CheckboxItem],
+    ['Menu.Section', Menu.Section],
+    ['Menu.Separator', Menu.Separator],
   ])(
     'should error when we are using a <%s /> without a parent <Menu />',
     suppressConsoleLogs((name, Component) => {
@@ -56,6 +60,36 @@ describe('Safe guards', () => {
     })
   )
 
+  it(
+    'should error when we are using a <Menu.Heading /> without a parent <Menu.Section />',
+    suppressConsoleLogs(() => {
+      expect(() =>
+        render(
+          <Menu>
+            <Menu.Items static>
+              <Menu.Heading>Edit</Menu.Heading>
+            </Menu.Items>
+          </Menu>
+        )
+      ).toThrowError('<Menu.Heading /> is missing a parent <Menu.Section /> component.')
+    })
+  )
+
+  it(
+    'should error when we are using a <Menu.RadioItem /> without a parent <Menu.RadioGroup />',
+    suppressConsoleLogs(() => {
+      expect(() =>
+        render(
+          <Menu>
+            <Menu.Items static>
+              <Menu.RadioItem value="a">A</Menu.RadioItem>
+            </Menu.Items>
+          </Menu>
+        )
+      ).toThrowError('<Menu.RadioItem /> is missing a parent <Menu.RadioGroup /> component.')
+    })
+  )
+
   it(
     'should be possible to render a Menu without crashing',
     suppressConsoleLogs(async () => {
@@ -3517,3 +3551,938 @@ describe('Mouse interactions', () => {
     })
   )
 })
+
+describe('Submenus', () => {
+  function wait(ms: number) {
+    return act(() => new Promise<void>((resolve) => setTimeout(resolve, ms)))
+  }
+
+  function Example({
+    onSelect,
+    portal = false,
+  }: {
+    onSelect?(value: string): void
+    portal?: boolean
+  }) {
+    let submenuItems = (
+      <Menu.Items>
+        <Menu.Item as="a" onClick={() => onSelect?.('email')}>
+          Email
+        </Menu.Item>
+        <Menu.Item as="a" onClick={() => onSelect?.('link')}>
+          Link
+        </Menu.Item>
+      </Menu.Items>
+    )
+
+    return (
+      <Menu>
+        <Menu.Button>Trigger</Menu.Button>
+        <Menu.Items>
+          <Menu.Item as="a" onClick={() => onSelect?.('edit')}>
+            Edit
+          </Menu.Item>
+          <Menu>
+            <Menu.Button>Share</Menu.Button>
+            {portal ? <Portal>{submenuItems}</Portal> : submenuItems}
+          </Menu>
+          <Menu.Item as="a" onClick={() => onSelect?.('delete')}>
+            Delete
+          </Menu.Item>
+        </Menu.Items>
+      </Menu>
+    )
+  }
+
+  it(
+    'should render the button of a submenu as an item of the parent menu',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getMenuButton())
+
+      let share = getByText('Share')
+      expect(share).toHaveAttribute('role', 'menuitem')
+      expect(share).toHaveAttribute('aria-haspopup', 'menu')
+      expect(share).toHaveAttribute('aria-expanded', 'false')
+      expect(share).toHaveAttribute('tabindex', '-1')
+
+      await press(Keys.ArrowDown)
+      await press(Keys.ArrowDown)
+      assertMenuLinkedWithMenuItem(share)
+
+      await press(Keys.ArrowDown)
+      assertMenuLinkedWithMenuItem(getByText('Delete'))
+
+      // Typeahead should find the button of the submenu as well
+      await type(word('s'))
+      assertMenuLinkedWithMenuItem(share)
+    })
+  )
+
+  it(
+    'should be possible to open a submenu with ArrowRight and close it again with ArrowLeft',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getMenuButton())
+      await press(Keys.Enter)
+      await press(Keys.ArrowDown)
+
+      await press(Keys.ArrowRight)
+
+      let [menu, submenu] = getMenus()
+      expect(getMenus()).toHaveLength(2)
+      expect(getByText('Share')).toHaveAttribute('aria-expanded', 'true')
+      assertActiveElement(submenu)
+      assertMenuLinkedWithMenuItem(getByText('Email'), submenu)
+
+      await press(Keys.ArrowDown)
+      assertMenuLinkedWithMenuItem(getByText('Link'), submenu)
+
+      await press(Keys.ArrowLeft)
+
+      // Only the submenu should be closed
+      expect(getMenus()).toHaveLength(1)
+      assertActiveElement(menu)
+      assertMenuLinkedWithMenuItem(getByText('Share'), menu)
+    })
+  )
+
+  it(
+    'should be possible to open a submenu with Enter and close one level at a time with Escape',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getMenuButton())
+      await press(Keys.Enter)
+      await press(Keys.ArrowDown)
+
+      await press(Keys.Enter)
+      expect(getMenus()).toHaveLength(2)
+      assertMenuLinkedWithMenuItem(getByText('Email'), getMenus()[1])
+
+      await press(Keys.Escape)
+      expect(getMenus()).toHaveLength(1)
+      assertActiveElement(getMenu())
+
+      await press(Keys.Escape)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      assertActiveElement(getMenuButton())
+    })
+  )
+
+  it(
+    'should close the whole menu tree when an item of a submenu is activated with Enter',
+    suppressConsoleLogs(async () => {
+      let handleSelect = jest.fn()
+      render(<Example onSelect={handleSelect} />)
+
+      await focus(getMenuButton())
+      await press(Keys.Enter)
+      await press(Keys.ArrowDown)
+      await press(Keys.ArrowRight)
+      await press(Keys.ArrowDown)
+
+      await press(Keys.Enter)
+
+      expect(handleSelect).toHaveBeenCalledTimes(1)
+      expect(handleSelect).toHaveBeenCalledWith('link')
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      assertActiveElement(getMenuButton())
+    })
+  )
+
+  it(
+    'should close the whole menu tree when an item of a submenu is clicked',
+    suppressConsoleLogs(async () => {
+      let handleSelect = jest.fn()
+      render(<Example onSelect={handleSelect} />)
+
+      await click(getMenuButton())
+      await click(getByText('Share'))
+      expect(getMenus()).toHaveLength(2)
+
+      await click(getByText('Email'))
+
+      expect(handleSelect).toHaveBeenCalledWith('email')
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      assertActiveElement(getMenuButton())
+    })
+  )
+
+  it(
+    'should treat the whole menu tree as one when handling outside clicks',
+    suppressConsoleLogs(async () => {
+      render(<Example portal />)
+
+      await click(getMenuButton())
+      await click(getByText('Share'))
+
+      // The submenu is rendered outside of the parent menu, but is still part of the tree
+      let submenu = getMenus()[1]
+      expect(getMenus()[0].contains(submenu)).toBe(false)
+
+      await click(submenu)
+      expect(getMenus()).toHaveLength(2)
+
+      await click(document.body)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should open a submenu on hover and keep it open while the pointer moves towards it',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getMenuButton())
+
+      await mouseMove(getByText('Share'))
+      expect(getMenus()).toHaveLength(2)
+
+      // Crossing another item of the parent menu on the way to the submenu
+      await mouseLeave(getByText('Share'))
+      await mouseMove(getByText('Delete'))
+      await mouseLeave(getByText('Delete'))
+      await mouseMove(getMenus()[1])
+
+      await wait(350)
+      expect(getMenus()).toHaveLength(2)
+      assertMenuLinkedWithMenuItem(getByText('Share'), getMenus()[0])
+
+      // Staying on another item of the parent menu closes the submenu
+      await mouseMove(getByText('Edit'))
+      expect(getMenus()).toHaveLength(2)
+
+      await wait(350)
+      expect(getMenus()).toHaveLength(1)
+      assertMenuLinkedWithMenuItem(getByText('Edit'))
+      assertActiveElement(getMenu())
+    })
+  )
+})
+
+describe('Checkable items', () => {
+  it(
+    'should render a checkbox item with the correct role and checked state',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      function Example() {
+        let [checked, setChecked] = useState(false)
+        return (
+          <Menu>
+            <Menu.Button>Trigger</Menu.Button>
+            <Menu.Items>
+              <Menu.CheckboxItem
+                as="a"
+                checked={checked}
+                onChange={(value) => {
+                  handleChange(value)
+                  setChecked(value)
+                }}
+              >
+                {JSON.stringify}
+              </Menu.CheckboxItem>
+            </Menu.Items>
+          </Menu>
+        )
+      }
+      render(<Example />)
+
+      await click(getMenuButton())
+
+      let [item] = getMenu()!.querySelectorAll('[role="menuitemcheckbox"]')
+      expect(item).toHaveAttribute('aria-checked', 'false')
+      expect(item).toHaveTextContent(
+        JSON.stringify({ active: false, disabled: false, checked: false })
+      )
+
+      // Toggling the item closes the menu by default
+      await click(item)
+      expect(handleChange).toHaveBeenCalledWith(true)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+
+      await click(getMenuButton())
+      item = getMenu()!.querySelectorAll('[role="menuitemcheckbox"]')[0]
+      expect(item).toHaveAttribute('aria-checked', 'true')
+      expect(item).toHaveTextContent(
+        JSON.stringify({ active: false, disabled: false, checked: true })
+      )
+    })
+  )
+
+  it(
+    'should be possible to keep the menu open when toggling a checkbox item',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.CheckboxItem as="a" keepOpen defaultChecked onChange={handleChange}>
+              Show grid
+            </Menu.CheckboxItem>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await focus(getMenuButton())
+      await press(Keys.Enter)
+
+      let item = getByText('Show grid')
+      expect(item).toHaveAttribute('aria-checked', 'true')
+
+      await press(Keys.Enter)
+      assertMenu({ state: MenuState.Visible })
+      expect(handleChange).toHaveBeenLastCalledWith(false)
+      expect(item).toHaveAttribute('aria-checked', 'false')
+
+      await press(Keys.Space)
+      assertMenu({ state: MenuState.Visible })
+      expect(handleChange).toHaveBeenLastCalledWith(true)
+      expect(item).toHaveAttribute('aria-checked', 'true')
+    })
+  )
+
+  it(
+    'should not be possible to toggle a disabled checkbox item',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.CheckboxItem as="a" disabled onChange={handleChange}>
+              Show grid
+            </Menu.CheckboxItem>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await click(getMenuButton())
+      await click(getByText('Show grid'))
+
+      expect(handleChange).not.toHaveBeenCalled()
+      expect(getByText('Show grid')).toHaveAttribute('aria-checked', 'false')
+    })
+  )
+
+  it(
+    'should only check one radio item per group',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.RadioGroup defaultValue="small" onChange={handleChange}>
+              <Menu.RadioItem as="a" value="small" keepOpen>
+                Small
+              </Menu.RadioItem>
+              <Menu.RadioItem as="a" value="large" keepOpen>
+                {({ checked }) => <>Large {checked ? '(checked)' : ''}</>}
+              </Menu.RadioItem>
+            </Menu.RadioGroup>
+            <Menu.RadioGroup defaultValue="name">
+              <Menu.RadioItem as="a" value="name">
+                Name
+              </Menu.RadioItem>
+              <Menu.RadioItem as="a" value="date">
+                Date
+              </Menu.RadioItem>
+            </Menu.RadioGroup>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await click(getMenuButton())
+
+      expect(getMenu()!.querySelectorAll('[role="group"]')).toHaveLength(2)
+
+      let items = Array.from(getMenu()!.querySelectorAll('[role="menuitemradio"]'))
+      expect(items.map((item) => item.getAttribute('aria-checked'))).toEqual([
+        'true',
+        'false',
+        'true',
+        'false',
+      ])
+
+      await click(items[1])
+      expect(handleChange).toHaveBeenCalledWith('large')
+      expect(items[1]).toHaveTextContent('Large (checked)')
+      expect(items.map((item) => item.getAttribute('aria-checked'))).toEqual([
+        'false',
+        'true',
+        'true',
+        'false',
+      ])
+
+      // Selecting the already checked item does not trigger a change
+      await click(items[1])
+      expect(handleChange).toHaveBeenCalledTimes(1)
+      assertMenu({ state: MenuState.Visible })
+
+      // Items without `keepOpen` close the menu
+      await click(items[3])
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should be possible to compare radio item values by a property',
+    suppressConsoleLogs(async () => {
+      let small = { id: 1, name: 'Small' }
+      let large = { id: 2, name: 'Large' }
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.RadioGroup value={{ id: 2, name: 'Large' }} by="id" onChange={() => {}}>
+              <Menu.RadioItem as="a" value={small}>
+                Small
+              </Menu.RadioItem>
+              <Menu.RadioItem as="a" value={large}>
+                Large
+              </Menu.RadioItem>
+            </Menu.RadioGroup>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await click(getMenuButton())
+
+      expect(getByText('Small')).toHaveAttribute('aria-checked', 'false')
+      expect(getByText('Large')).toHaveAttribute('aria-checked', 'true')
+    })
+  )
+})
+
+describe('Context menus', () => {
+  function Example({ disabled = false }) {
+    return (
+      <Menu>
+        <Menu.ContextTrigger data-testid="area" disabled={disabled}>
+          <button>Cell A</button>
+          <button>Cell B</button>
+        </Menu.ContextTrigger>
+        <Menu.Items aria-label="Actions">
+          <Menu.Item as="a">Copy</Menu.Item>
+          <Menu.Item as="a">Cut</Menu.Item>
+          <Menu.Item as="a">Paste</Menu.Item>
+        </Menu.Items>
+      </Menu>
+    )
+  }
+
+  it(
+    'should open the menu at the pointer position on contextmenu',
+    suppressConsoleLogs(async () => {
+      let { getByTestId } = render(<Example />)
+
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+
+      let event = new MouseEvent('contextmenu', {
+        bubbles: true,
+        cancelable: true,
+        clientX: 120,
+        clientY: 80,
+      })
+      await act(async () => {
+        getByText('Cell B')!.dispatchEvent(event)
+      })
+
+      expect(event.defaultPrevented).toBe(true)
+      expect(getMenu()).toBeVisible()
+      expect(getMenu()).toHaveStyle({ position: 'fixed', left: '120px', top: '80px' })
+      assertActiveElement(getMenu())
+      assertNoActiveMenuItem()
+
+      // Opening it again elsewhere moves the menu
+      await act(async () => {
+        fireEvent.contextMenu(getByTestId('area'), { clientX: 40, clientY: 50 })
+      })
+      expect(getMenu()).toHaveStyle({ left: '40px', top: '50px' })
+    })
+  )
+
+  it.each([
+    ['Shift+F10', shift(Keys.F10)],
+    ['ContextMenu', Keys.ContextMenu],
+  ])(
+    'should be possible to open the menu with %s and return focus when closing it',
+    suppressConsoleLogs(async (_, key) => {
+      render(<Example />)
+
+      let cell = getByText('Cell B')
+      await focus(cell)
+
+      await press(key)
+
+      expect(getMenu()).toBeVisible()
+      assertActiveElement(getMenu())
+      assertMenuLinkedWithMenuItem(getMenuItems()[0])
+
+      // Typeahead works as usual
+      await type(word('p'))
+      assertMenuLinkedWithMenuItem(getMenuItems()[2])
+
+      await press(Keys.Escape)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      assertActiveElement(cell)
+    })
+  )
+
+  it(
+    'should ignore the contextmenu event that follows the keyboard shortcut',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let cell = getByText('Cell B')!
+      jest.spyOn(cell, 'getBoundingClientRect').mockReturnValue({ left: 20, bottom: 30 } as DOMRect)
+      await focus(cell)
+
+      await press(Keys.ContextMenu)
+      expect(getMenu()).toHaveStyle({ left: '20px', top: '30px' })
+
+      // The browser dispatches a `contextmenu` event for the same key press
+      await act(async () => {
+        fireEvent.contextMenu(cell, { clientX: 0, clientY: 0 })
+      })
+
+      expect(getMenu()).toHaveStyle({ left: '20px', top: '30px' })
+      assertMenuLinkedWithMenuItem(getMenuItems()[0])
+    })
+  )
+
+  it(
+    'should close the context menu and return focus when an item is clicked',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      let cell = getByText('Cell A')
+      await focus(cell)
+      await press(shift(Keys.F10))
+
+      await click(getMenuItems()[1])
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      assertActiveElement(cell)
+    })
+  )
+
+  it(
+    'should close the context menu when clicking outside of it',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await act(async () => {
+        fireEvent.contextMenu(getByText('Cell A')!, { clientX: 10, clientY: 10 })
+      })
+      expect(getMenu()).toBeVisible()
+
+      await click(document.body)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should not open the context menu when the trigger is disabled',
+    suppressConsoleLogs(async () => {
+      render(<Example disabled />)
+
+      let event = new MouseEvent('contextmenu', { bubbles: true, cancelable: true })
+      await act(async () => {
+        getByText('Cell A')!.dispatchEvent(event)
+      })
+
+      expect(event.defaultPrevented).toBe(false)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+
+      await focus(getByText('Cell A'))
+      await press(shift(Keys.F10))
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+    })
+  )
+})
+
+describe('Sections', () => {
+  function Example() {
+    return (
+      <Menu>
+        <Menu.Button>Trigger</Menu.Button>
+        <Menu.Items>
+          <Menu.Section>
+            <Menu.Heading>Share</Menu.Heading>
+            <Menu.Item as="a">Email</Menu.Item>
+            <Menu.Item as="a">Link</Menu.Item>
+          </Menu.Section>
+          <Menu.Separator />
+          <Menu.Section>
+            <Menu.Heading>Danger zone</Menu.Heading>
+            <Menu.Item as="a">Delete</Menu.Item>
+            <Menu.Item as="a">Save as</Menu.Item>
+          </Menu.Section>
+        </Menu.Items>
+      </Menu>
+    )
+  }
+
+  it(
+    'should render sections labelled by their heading, and separators',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getMenuButton())
+
+      let sections = getMenu()!.querySelectorAll('[role="group"]')
+      expect(sections).toHaveLength(2)
+
+      let share = getByText('Share')
+      expect(share).toHaveAttribute('role', 'presentation')
+      expect(share).toHaveAttribute('id', expect.stringContaining('headlessui-menu-heading-'))
+      expect(sections[0]).toHaveAttribute('aria-labelledby', share!.id)
+      expect(sections[1]).toHaveAttribute('aria-labelledby', getByText('Danger zone')!.id)
+
+      expect(getMenu()!.querySelectorAll('[role="separator"]')).toHaveLength(1)
+      expect(getMenuItems()).toHaveLength(4)
+    })
+  )
+
+  it(
+    'should skip headings and separators when navigating with the keyboard',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getMenuButton())
+      await press(Keys.Enter)
+      assertMenuLinkedWithMenuItem(getByText('Email'))
+
+      await press(Keys.ArrowDown)
+      assertMenuLinkedWithMenuItem(getByText('Link'))
+
+      await press(Keys.ArrowDown)
+      assertMenuLinkedWithMenuItem(getByText('Delete'))
+
+      await press(Keys.ArrowUp)
+      assertMenuLinkedWithMenuItem(getByText('Link'))
+
+      await press(Keys.End)
+      assertMenuLinkedWithMenuItem(getByText('Save as'))
+    })
+  )
+
+  it(
+    'should skip headings when searching',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await click(getMenuButton())
+
+      // "Share" is a heading, so the first match is "Save as"
+      await type(word('s'))
+      assertMenuLinkedWithMenuItem(getByText('Save as'))
+
+      // "Danger zone" is a heading as well, so we stay on the first match
+      await press(Keys.Home)
+      await type(word('danger'))
+      assertMenuLinkedWithMenuItem(getByText('Delete'))
+    })
+  )
+})
+
+describe('Menu bar', () => {
+  function Example() {
+    return (
+      <Menu.Bar aria-label="Editor">
+        <Menu>
+          <Menu.Button>File</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">New</Menu.Item>
+            <Menu.Item as="a">Open</Menu.Item>
+          </Menu.Items>
+        </Menu>
+        <Menu>
+          <Menu.Button>Edit</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">Undo</Menu.Item>
+            <Menu>
+              <Menu.Button>Find</Menu.Button>
+              <Menu.Items>
+                <Menu.Item as="a">Find next</Menu.Item>
+              </Menu.Items>
+            </Menu>
+          </Menu.Items>
+        </Menu>
+        <Menu>
+          <Menu.Button>View</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">Zoom in</Menu.Item>
+          </Menu.Items>
+        </Menu>
+      </Menu.Bar>
+    )
+  }
+
+  let getButton = (name: string) => getByText(name)!
+
+  it(
+    'should render a menubar with a roving tabindex across its buttons',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      expect(document.querySelector('[role="menubar"]')).toHaveAttribute('aria-label', 'Editor')
+
+      for (let name of ['File', 'Edit', 'View']) {
+        expect(getButton(name)).toHaveAttribute('role', 'menuitem')
+        expect(getButton(name)).toHaveAttribute('aria-haspopup', 'menu')
+      }
+
+      expect(getButton('File')).toHaveAttribute('tabindex', '0')
+      expect(getButton('Edit')).toHaveAttribute('tabindex', '-1')
+      expect(getButton('View')).toHaveAttribute('tabindex', '-1')
+
+      await focus(getButton('File'))
+
+      await press(Keys.ArrowRight)
+      assertActiveElement(getButton('Edit'))
+      expect(getButton('File')).toHaveAttribute('tabindex', '-1')
+      expect(getButton('Edit')).toHaveAttribute('tabindex', '0')
+
+      await press(Keys.End)
+      assertActiveElement(getButton('View'))
+
+      // Wraps around
+      await press(Keys.ArrowRight)
+      assertActiveElement(getButton('File'))
+
+      await press(Keys.ArrowLeft)
+      assertActiveElement(getButton('View'))
+
+      await press(Keys.Home)
+      assertActiveElement(getButton('File'))
+
+      // Moving between buttons does not open any menu
+      expect(getMenus()).toHaveLength(0)
+    })
+  )
+
+  it(
+    'should hand off to the neighboring menu with ArrowRight and ArrowLeft while a menu is open',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      await focus(getButton('File'))
+      await press(Keys.Enter)
+      assertMenuLinkedWithMenuItem(getByText('New'))
+
+      await press(Keys.ArrowRight)
+      expect(getMenus()).toHaveLength(1)
+      expect(getButton('File')).toHaveAttribute('aria-expanded', 'false')
+      expect(getButton('Edit')).toHaveAttribute('aria-expanded', 'true')
+      assertActiveElement(getMenu())
+      assertMenuLinkedWithMenuItem(getByText('Undo'))
+
+      // ArrowRight on the button of a submenu opens the submenu instead
+      await press(Keys.ArrowDown)
+      await press(Keys.ArrowRight)
+      expect(getMenus()).toHaveLength(2)
+      await press(Keys.ArrowLeft)
+      expect(getMenus()).toHaveLength(1)
+
+      await press(Keys.ArrowLeft)
+      expect(getButton('File')).toHaveAttribute('aria-expanded', 'true')
+      assertMenuLinkedWithMenuItem(getByText('New'))
+
+      // Wraps around
+      await press(Keys.ArrowLeft)
+      expect(getButton('View')).toHaveAttribute('aria-expanded', 'true')
+      assertMenuLinkedWithMenuItem(getByText('Zoom in'))
+
+      await press(Keys.Escape)
+      expect(getMenus()).toHaveLength(0)
+      assertActiveElement(getButton('View'))
+      expect(getButton('View')).toHaveAttribute('tabindex', '0')
+    })
+  )
+
+  it(
+    'should switch to another menu on hover once a menu is open',
+    suppressConsoleLogs(async () => {
+      render(<Example />)
+
+      // Hovering does nothing while all menus are closed
+      await mouseMove(getButton('Edit'))
+      expect(getMenus()).toHaveLength(0)
+
+      await click(getButton('File'))
+      expect(getButton('File')).toHaveAttribute('aria-expanded', 'true')
+
+      await mouseMove(getButton('Edit'))
+      expect(getMenus()).toHaveLength(1)
+      expect(getButton('File')).toHaveAttribute('aria-expanded', 'false')
+      expect(getButton('Edit')).toHaveAttribute('aria-expanded', 'true')
+      assertActiveElement(getMenu())
+
+      await mouseMove(getButton('View'))
+      expect(getButton('Edit')).toHaveAttribute('aria-expanded', 'false')
+      expect(getButton('View')).toHaveAttribute('aria-expanded', 'true')
+    })
+  )
+})
+
+describe('Controlled open state', () => {
+  it(
+    'should be possible to open the Menu by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Menu defaultOpen>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">Item A</Menu.Item>
+          </Menu.Items>
+        </Menu>
+      )
+
+      assertMenuButton({ state: MenuState.Visible })
+      assertMenu({ state: MenuState.Visible })
+
+      await click(getMenuButton())
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should call `onOpenChange` with the reason the Menu opened or closed',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      render(
+        <Menu onOpenChange={handleOpenChange}>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">Item A</Menu.Item>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await click(getMenuButton())
+      await press(Keys.Escape)
+      await press(Keys.Enter)
+      await click(getMenuItems()[0])
+      await click(getMenuButton())
+      await click(document.body)
+
+      expect(handleOpenChange.mock.calls).toEqual([
+        [true, 'pointer'],
+        [false, 'escape'],
+        [true, 'keyboard'],
+        [false, 'selection'],
+        [true, 'pointer'],
+        [false, 'outside-click'],
+      ])
+    })
+  )
+
+  it(
+    'should only open or close the Menu when the `open` prop changes',
+    suppressConsoleLogs(async () => {
+      let handleOpenChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(false)
+        let [locked, setLocked] = useState(false)
+
+        return (
+          <>
+            <Menu
+              open={open}
+              onOpenChange={(open: boolean, reason: string | null) => {
+                handleOpenChange(open, reason)
+                if (!locked) setOpen(open)
+              }}
+            >
+              {({ reason }) => (
+                <>
+                  <Menu.Button>Trigger</Menu.Button>
+                  <span data-testid="reason">{reason ?? 'none'}</span>
+                  <Menu.Items>
+                    <Menu.Item as="a">Item A</Menu.Item>
+                  </Menu.Items>
+                </>
+              )}
+            </Menu>
+            <button onClick={() => setLocked((locked) => !locked)}>Lock</button>
+            <button onClick={() => setOpen(true)}>Open</button>
+          </>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getMenuButton())
+      assertMenu({ state: MenuState.Visible })
+      expect(getByText('pointer')).not.toBeNull()
+
+      await press(Keys.Escape)
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+      expect(getByText('escape')).not.toBeNull()
+
+      // The request to open is reported, but the Menu stays closed
+      await click(getByText('Lock'))
+      await click(getMenuButton())
+      expect(handleOpenChange).toHaveBeenLastCalledWith(true, 'pointer')
+      assertMenu({ state: MenuState.InvisibleUnmounted })
+
+      // Opening from the outside doesn't have a reason
+      await click(getByText('Open'))
+      assertMenu({ state: MenuState.Visible })
+      expect(getByText('none')).not.toBeNull()
+      expect(handleOpenChange).toHaveBeenCalledTimes(3)
+    })
+  )
+})
+
+describe('Anchor', () => {
+  it(
+    'should position the Menu.Items against the Menu.Button',
+    suppressConsoleLogs(async () => {
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items anchor={{ to: 'bottom start', gap: 4 }}>
+            <Menu.Item as="a">Item A</Menu.Item>
+          </Menu.Items>
+        </Menu>
+      )
+
+      let rect = { left: 100, top: 50, right: 180, bottom: 70, width: 80, height: 20 } as DOMRect
+      let spy = jest.spyOn(getMenuButton()!, 'getBoundingClientRect').mockReturnValue(rect)
+
+      await click(getMenuButton())
+      expect(getMenu()).toHaveAttribute('data-anchor', 'bottom start')
+      expect(getMenu()).toHaveStyle({ position: 'fixed', left: '100px', top: '74px' })
+
+      // The Menu.Items should follow the Menu.Button, and flip when it no longer fits below it
+      spy.mockReturnValue({ ...rect, top: 750, bottom: 770 })
+      act(() => void window.dispatchEvent(new Event('scroll')))
+      expect(getMenu()).toHaveAttribute('data-anchor', 'top start')
+      expect(getMenu()).toHaveStyle({ top: '746px' })
+    })
+  )
+
+  it(
+    'should not position the Menu.Items without an anchor',
+    suppressConsoleLogs(async () => {
+      render(
+        <Menu>
+          <Menu.Button>Trigger</Menu.Button>
+          <Menu.Items>
+            <Menu.Item as="a">Item A</Menu.Item>
+          </Menu.Items>
+        </Menu>
+      )
+
+      await click(getMenuButton())
+      expect(getMenu()).not.toHaveAttribute('data-anchor')
+      expect(getMenu()).not.toHaveAttribute('style')
+    })
+  )
+})
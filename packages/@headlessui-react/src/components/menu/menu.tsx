@@ -8,8 +8,10 @@ import React, {
   useMemo,
   useReducer,
   useRef,
+  useState,
 
   // Types
+  ContextType,
   Dispatch,
   ElementType,
   KeyboardEvent as ReactKeyboardEvent,
@@ -31,11 +33,18 @@ import { Focus, calculateActiveIndex } from '../../utils/calculate-active-index'
 import { isDisabledReactIssue7711 } from '../../utils/bugs'
 import { isFocusableElement, FocusableMode, sortByDomNode } from '../../utils/focus-management'
 import { useOutsideClick } from '../../hooks/use-outside-click'
+import { LayerProvider } from '../../hooks/use-layer'
 import { useTreeWalker } from '../../hooks/use-tree-walker'
 import { useOpenClosed, State, OpenClosedProvider } from '../../internal/open-closed'
+import { useGroup, useGroupLabel } from '../../internal/group'
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { useOwnerDocument } from '../../hooks/use-owner'
 import { useEvent } from '../../hooks/use-event'
+import { useControllable } from '../../hooks/use-controllable'
+import { useOpenChange, OpenChangeReason } from '../../hooks/use-open-change'
+import { useAnchor } from '../../hooks/use-anchor'
+import { AnchorProps } from '../../utils/anchor'
+import { getOwnerDocument } from '../../utils/owner'
 
 enum MenuStates {
   Open,
@@ -51,6 +60,8 @@ type MenuItemDataRef = MutableRefObject<{
   textValue?: string
   disabled: boolean
   domRef: MutableRefObject<HTMLElement | null>
+  keepOpen?: boolean
+  openSubmenu?(): void
 }>
 
 interface StateDefinition {
@@ -61,6 +72,10 @@ interface StateDefinition {
   searchQuery: string
   activeItemIndex: number | null
   activationTrigger: ActivationTrigger
+  parentRef: MutableRefObject<[StateDefinition, Dispatch<Actions>] | null>
+  submenusRef: MutableRefObject<Set<StateDefinition>>
+  contextMenu: { x: number; y: number; returnFocus: HTMLElement | null } | null
+  openChangeReason: OpenChangeReason | null
 }
 
 enum ActionTypes {
@@ -101,8 +116,12 @@ function adjustOrderedState(
 }
 
 type Actions =
-  | { type: ActionTypes.CloseMenu }
-  | { type: ActionTypes.OpenMenu }
+  | { type: ActionTypes.CloseMenu; reason: OpenChangeReason | null }
+  | {
+      type: ActionTypes.OpenMenu
+      reason: OpenChangeReason | null
+      contextMenu?: StateDefinition['contextMenu']
+    }
   | { type: ActionTypes.GoToItem; focus: Focus.Specific; id: string; trigger?: ActivationTrigger }
   | {
       type: ActionTypes.GoToItem
@@ -120,13 +139,19 @@ let reducers: {
     action: Extract<Actions, { type: P }>
   ) => StateDefinition
 } = {
-  [ActionTypes.CloseMenu](state) {
+  [ActionTypes.CloseMenu](state, action) {
     if (state.menuState === MenuStates.Closed) return state
-    return { ...state, activeItemIndex: null, menuState: MenuStates.Closed }
+    return {
+      ...state,
+      activeItemIndex: null,
+      menuState: MenuStates.Closed,
+      openChangeReason: action.reason,
+    }
   },
-  [ActionTypes.OpenMenu](state) {
-    if (state.menuState === MenuStates.Open) return state
-    return { ...state, menuState: MenuStates.Open }
+  [ActionTypes.OpenMenu](state, action) {
+    let contextMenu = action.contextMenu ?? null
+    if (state.menuState === MenuStates.Open && state.contextMenu === contextMenu) return state
+    return { ...state, menuState: MenuStates.Open, contextMenu, openChangeReason: action.reason }
   },
   [ActionTypes.GoToItem]: (state, action) => {
     let adjustedState = adjustOrderedState(state)
@@ -211,72 +236,295 @@ function useMenuContext(component: string) {
   return context
 }
 
+// Provided by `Menu.Items`, so that a `Menu` rendered inside of it knows that it is a submenu.
+let ParentMenuContext = createContext<[StateDefinition, Dispatch<Actions>] | null>(null)
+ParentMenuContext.displayName = 'ParentMenuContext'
+
 function stateReducer(state: StateDefinition, action: Actions) {
   return match(action.type, reducers, state, action)
 }
 
+function resolveOpenChange(action: Actions) {
+  if (action.type === ActionTypes.OpenMenu) return { open: true, reason: action.reason }
+  if (action.type === ActionTypes.CloseMenu) return { open: false, reason: action.reason }
+  return null
+}
+
+function createOpenChangeAction(open: boolean, reason: OpenChangeReason | null): Actions {
+  return open ? { type: ActionTypes.OpenMenu, reason } : { type: ActionTypes.CloseMenu, reason }
+}
+
+// The time a submenu stays open after the pointer left its button, so that the pointer can cross
+// other items of the parent menu on its way to the submenu.
+let SUBMENU_CLOSE_DELAY = 300
+
+function resolveSubmenuContainers(
+  state: StateDefinition
+): MutableRefObject<HTMLDivElement | null>[] {
+  return Array.from(state.submenusRef.current).flatMap((submenu) => [
+    submenu.itemsRef,
+    ...resolveSubmenuContainers(submenu),
+  ])
+}
+
+function closeSubmenu(
+  state: StateDefinition,
+  dispatch: Dispatch<Actions>,
+  reason: OpenChangeReason
+) {
+  let parent = state.parentRef.current
+  if (parent === null) return
+
+  // Move focus back to the parent menu, instead of losing it together with the submenu.
+  let items = state.itemsRef.current
+  if (items?.contains(getOwnerDocument(items)?.activeElement ?? null)) {
+    parent[0].itemsRef.current?.focus({ preventScroll: true })
+  }
+
+  dispatch({ type: ActionTypes.CloseMenu, reason })
+}
+
+function closeMenuTree(state: StateDefinition, dispatch: Dispatch<Actions>): void {
+  dispatch({ type: ActionTypes.CloseMenu, reason: 'selection' })
+
+  let parent = state.parentRef.current
+  if (parent !== null) return closeMenuTree(...parent)
+
+  disposables().nextFrame(() => restoreFocus(state))
+}
+
+// A context menu returns focus to where it was before it opened, other menus to their button.
+function restoreFocus(state: StateDefinition) {
+  let element = state.contextMenu !== null ? state.contextMenu.returnFocus : state.buttonRef.current
+  element?.focus({ preventScroll: true })
+}
+
 // ---
 
 let DEFAULT_MENU_TAG = Fragment
 interface MenuRenderPropArg {
   open: boolean
+  reason: OpenChangeReason | null
 }
 
 let MenuRoot = forwardRefWithAs(function Menu<TTag extends ElementType = typeof DEFAULT_MENU_TAG>(
-  props: Props<TTag, MenuRenderPropArg>,
+  props: Props<TTag, MenuRenderPropArg, 'open' | 'defaultOpen' | 'onOpenChange'> & {
+    open?: boolean
+    defaultOpen?: boolean
+    onOpenChange?(open: boolean, reason: OpenChangeReason | null): void
+  },
   ref: Ref<HTMLElement>
 ) {
-  let reducerBag = useReducer(stateReducer, {
-    menuState: MenuStates.Closed,
+  let { open: controlledOpen, defaultOpen = false, onOpenChange, ...theirProps } = props
+  let parent = useContext(ParentMenuContext)
+  let [state, internalDispatch] = useReducer(stateReducer, {
+    menuState: controlledOpen ?? defaultOpen ? MenuStates.Open : MenuStates.Closed,
     buttonRef: createRef(),
     itemsRef: createRef(),
     items: [],
     searchQuery: '',
     activeItemIndex: null,
     activationTrigger: ActivationTrigger.Other,
+    parentRef: createRef(),
+    submenusRef: { current: new Set() },
+    contextMenu: null,
+    openChangeReason: null,
   } as StateDefinition)
-  let [{ menuState, itemsRef, buttonRef }, dispatch] = reducerBag
+  let { menuState, itemsRef, buttonRef, parentRef, openChangeReason } = state
+  let dispatch = useOpenChange<Actions>({
+    open: menuState === MenuStates.Open,
+    controlledOpen,
+    onOpenChange,
+    dispatch: internalDispatch,
+    resolveOpenChange,
+    createAction: createOpenChangeAction,
+  })
+  let reducerBag = useMemo<[StateDefinition, Dispatch<Actions>]>(
+    () => [state, dispatch],
+    [state, dispatch]
+  )
   let menuRef = useSyncRefs(ref)
 
+  useIsoMorphicEffect(() => {
+    parentRef.current = parent
+  }, [parentRef, parent])
+
+  // Let the parent menu know about this submenu, so that the whole menu tree is treated as one
+  // when handling outside clicks.
+  let parentSubmenusRef = parent?.[0].submenusRef
+  useIsoMorphicEffect(() => {
+    if (!parentSubmenusRef) return
+    let submenus = parentSubmenusRef.current
+    let state = reducerBag[0]
+    submenus.add(state)
+    return () => {
+      submenus.delete(state)
+    }
+  }, [parentSubmenusRef])
+
+  // A submenu can't stay open when the menu it is nested in closes.
+  let parentMenuState = parent?.[0].menuState
+  let parentOpenChangeReason = parent?.[0].openChangeReason ?? null
+  useEffect(() => {
+    if (parentMenuState !== MenuStates.Closed) return
+    dispatch({ type: ActionTypes.CloseMenu, reason: parentOpenChangeReason })
+  }, [parentMenuState, parentOpenChangeReason, dispatch])
+
   // Handle outside click
-  useOutsideClick(
-    [buttonRef, itemsRef],
+  let [layer] = useOutsideClick(
+    () => [buttonRef, itemsRef, ...resolveSubmenuContainers(reducerBag[0])],
     (event, target) => {
-      dispatch({ type: ActionTypes.CloseMenu })
+      dispatch({ type: ActionTypes.CloseMenu, reason: 'outside-click' })
 
       if (!isFocusableElement(target, FocusableMode.Loose)) {
         event.preventDefault()
-        buttonRef.current?.focus()
+        restoreFocus(reducerBag[0])
       }
     },
-    menuState === MenuStates.Open
+    menuState === MenuStates.Open && parent === null
   )
 
   let slot = useMemo<MenuRenderPropArg>(
-    () => ({ open: menuState === MenuStates.Open }),
-    [menuState]
+    () => ({ open: menuState === MenuStates.Open, reason: openChangeReason }),
+    [menuState, openChangeReason]
   )
 
-  let theirProps = props
   let ourProps = { ref: menuRef }
 
   return (
-    <MenuContext.Provider value={reducerBag}>
-      <OpenClosedProvider
-        value={match(menuState, {
-          [MenuStates.Open]: State.Open,
-          [MenuStates.Closed]: State.Closed,
-        })}
-      >
-        {render({
-          ourProps,
-          theirProps,
-          slot,
-          defaultTag: DEFAULT_MENU_TAG,
-          name: 'Menu',
-        })}
-      </OpenClosedProvider>
-    </MenuContext.Provider>
+    <LayerProvider value={layer}>
+      <MenuContext.Provider value={reducerBag}>
+        <OpenClosedProvider
+          value={match(menuState, {
+            [MenuStates.Open]: State.Open,
+            [MenuStates.Closed]: State.Closed,
+          })}
+        >
+          {render({
+            ourProps,
+            theirProps,
+            slot,
+            defaultTag: DEFAULT_MENU_TAG,
+            name: 'Menu',
+          })}
+        </OpenClosedProvider>
+      </MenuContext.Provider>
+    </LayerProvider>
+  )
+})
+
+// ---
+
+interface MenuBarRegisterBag {
+  id: string
+  buttonRef: MutableRefObject<HTMLButtonElement | null>
+  open(reason: OpenChangeReason, focus?: Focus.First | Focus.Last): void
+  close(reason: OpenChangeReason): void
+}
+
+let MenuBarContext = createContext<{
+  registerMenu(registerbag: MenuBarRegisterBag): () => void
+  setMenuOpen(id: string, open: boolean): void
+  setTabStop(id: string): void
+  move(
+    id: string,
+    focus: Focus.First | Focus.Previous | Focus.Next | Focus.Last,
+    open: boolean
+  ): void
+  switchTo(id: string): void
+  openMenuId: string | null
+  tabStopId: string | null
+} | null>(null)
+MenuBarContext.displayName = 'MenuBarContext'
+
+let DEFAULT_BAR_TAG = 'div' as const
+interface BarRenderPropArg {
+  open: boolean
+}
+type BarPropsWeControl = 'role'
+
+let Bar = forwardRefWithAs(function Bar<TTag extends ElementType = typeof DEFAULT_BAR_TAG>(
+  props: Props<TTag, BarRenderPropArg, BarPropsWeControl>,
+  ref: Ref<HTMLElement>
+) {
+  let [menus, setMenus] = useState<MenuBarRegisterBag[]>([])
+  let [openMenuId, setOpenMenuId] = useState<string | null>(null)
+  let [tabStopId, setTabStopId] = useState<string | null>(null)
+
+  let registerMenu = useEvent((registerbag: MenuBarRegisterBag) => {
+    setMenus((existing) => [...existing, registerbag])
+    return () => setMenus((existing) => existing.filter((menu) => menu !== registerbag))
+  })
+
+  let setMenuOpen = useEvent((id: string, open: boolean) => {
+    setOpenMenuId((current) => (open ? id : current === id ? null : current))
+  })
+
+  let resolveMenus = useEvent(() => {
+    return sortByDomNode(menus, (menu) => menu.buttonRef.current).filter(
+      (menu) => !menu.buttonRef.current?.disabled
+    )
+  })
+
+  let move = useEvent(
+    (id: string, focus: Focus.First | Focus.Previous | Focus.Next | Focus.Last, open: boolean) => {
+      let sortedMenus = resolveMenus()
+      if (sortedMenus.length === 0) return
+
+      let currentIdx = sortedMenus.findIndex((menu) => menu.id === id)
+      let nextIdx = match(focus, {
+        [Focus.First]: () => 0,
+        [Focus.Previous]: () => (currentIdx - 1 + sortedMenus.length) % sortedMenus.length,
+        [Focus.Next]: () => (currentIdx + 1) % sortedMenus.length,
+        [Focus.Last]: () => sortedMenus.length - 1,
+      })
+      let nextMenu = sortedMenus[nextIdx]
+
+      if (open) menus.find((menu) => menu.id === id)?.close('keyboard')
+      nextMenu.buttonRef.current?.focus({ preventScroll: true })
+      if (open) nextMenu.open('keyboard', Focus.First)
+    }
+  )
+
+  // Once one of the menus is open, hovering the button of another menu switches to that menu.
+  let switchTo = useEvent((id: string) => {
+    if (openMenuId === null || openMenuId === id) return
+    menus.find((menu) => menu.id === openMenuId)?.close('pointer')
+    menus.find((menu) => menu.id === id)?.open('pointer')
+  })
+
+  let resolvedTabStopId = menus.some((menu) => menu.id === tabStopId)
+    ? tabStopId
+    : sortByDomNode(menus, (menu) => menu.buttonRef.current)[0]?.id ?? null
+
+  let contextBag = useMemo<ContextType<typeof MenuBarContext>>(
+    () => ({
+      registerMenu,
+      setMenuOpen,
+      setTabStop: setTabStopId,
+      move,
+      switchTo,
+      openMenuId,
+      tabStopId: resolvedTabStopId,
+    }),
+    [registerMenu, setMenuOpen, move, switchTo, openMenuId, resolvedTabStopId]
+  )
+
+  let slot = useMemo<BarRenderPropArg>(() => ({ open: openMenuId !== null }), [openMenuId])
+
+  let theirProps = props
+  let ourProps = { ref, role: 'menubar' }
+
+  return (
+    <MenuBarContext.Provider value={contextBag}>
+      {render({
+        ourProps,
+        theirProps,
+        slot,
+        defaultTag: DEFAULT_BAR_TAG,
+        name: 'Menu.Bar',
+      })}
+    </MenuBarContext.Provider>
   )
 })
 
@@ -285,6 +533,8 @@ let MenuRoot = forwardRefWithAs(function Menu<TTag extends ElementType = typeof
 let DEFAULT_BUTTON_TAG = 'button' as const
 interface ButtonRenderPropArg {
   open: boolean
+  /** Whether the button of a submenu is the active item of its parent menu. */
+  active?: boolean
 }
 type ButtonPropsWeControl =
   | 'id'
@@ -300,11 +550,87 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   ref: Ref<HTMLButtonElement>
 ) {
   let [state, dispatch] = useMenuContext('Menu.Button')
+  let parent = useContext(ParentMenuContext)
+  let bar = useContext(MenuBarContext)
   let buttonRef = useSyncRefs(state.buttonRef, ref)
 
   let id = `headlessui-menu-button-${useId()}`
   let d = useDisposables()
 
+  let barRegisterBag = useMemo<MenuBarRegisterBag>(
+    () => ({
+      id,
+      buttonRef: state.buttonRef,
+      open(reason, focus) {
+        dispatch({ type: ActionTypes.OpenMenu, reason })
+        if (focus !== undefined) d.nextFrame(() => dispatch({ type: ActionTypes.GoToItem, focus }))
+      },
+      close(reason) {
+        dispatch({ type: ActionTypes.CloseMenu, reason })
+      },
+    }),
+    [id, state.buttonRef, dispatch, d]
+  )
+
+  let registerMenu = bar?.registerMenu
+  useEffect(() => registerMenu?.(barRegisterBag), [registerMenu, barRegisterBag])
+
+  let setMenuOpen = bar?.setMenuOpen
+  let open = state.menuState === MenuStates.Open
+  useEffect(() => setMenuOpen?.(id, open), [setMenuOpen, id, open])
+
+  // The button of a submenu is an item of the parent menu as well.
+  let active =
+    parent !== null && parent[0].activeItemIndex !== null
+      ? parent[0].items[parent[0].activeItemIndex]?.id === id
+      : false
+
+  let bag = useRef<MenuItemDataRef['current']>({
+    disabled: props.disabled ?? false,
+    domRef: state.buttonRef,
+    openSubmenu() {
+      dispatch({ type: ActionTypes.OpenMenu, reason: 'keyboard' })
+      d.nextFrame(() => dispatch({ type: ActionTypes.GoToItem, focus: Focus.First }))
+    },
+  })
+
+  useIsoMorphicEffect(() => {
+    bag.current.disabled = props.disabled ?? false
+  }, [bag, props.disabled])
+  useIsoMorphicEffect(() => {
+    bag.current.textValue = state.buttonRef.current?.textContent?.toLowerCase()
+  }, [bag, state.buttonRef])
+
+  let parentDispatch = parent?.[1]
+  useIsoMorphicEffect(() => {
+    if (!parentDispatch) return
+    parentDispatch({ type: ActionTypes.RegisterItem, id, dataRef: bag })
+    return () => parentDispatch!({ type: ActionTypes.UnregisterItem, id })
+  }, [parentDispatch, bag, id])
+
+  let parentActivationTrigger = parent?.[0].activationTrigger
+  useEffect(() => {
+    if (!parentDispatch) return
+    if (state.menuState !== MenuStates.Open) return
+    if (active) return
+
+    if (parentActivationTrigger !== ActivationTrigger.Pointer) {
+      return closeSubmenu(state, dispatch, 'keyboard')
+    }
+
+    let d = disposables()
+    d.setTimeout(() => closeSubmenu(state, dispatch, 'pointer'), SUBMENU_CLOSE_DELAY)
+    return d.dispose
+  }, [parentDispatch, active, state.menuState, parentActivationTrigger])
+
+  let openSubmenu = useEvent((trigger: ActivationTrigger) => {
+    if (!parentDispatch) return
+    if (!active) {
+      parentDispatch({ type: ActionTypes.GoToItem, focus: Focus.Specific, id, trigger })
+    }
+    dispatch({ type: ActionTypes.OpenMenu, reason: 'pointer' })
+  })
+
   let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLButtonElement>) => {
     switch (event.key) {
       // Ref: https://www.w3.org/TR/wai-aria-practices-1.2/#keyboard-interaction-13
@@ -314,16 +640,45 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
       case Keys.ArrowDown:
         event.preventDefault()
         event.stopPropagation()
-        dispatch({ type: ActionTypes.OpenMenu })
+        dispatch({ type: ActionTypes.OpenMenu, reason: 'keyboard' })
         d.nextFrame(() => dispatch({ type: ActionTypes.GoToItem, focus: Focus.First }))
         break
 
       case Keys.ArrowUp:
         event.preventDefault()
         event.stopPropagation()
-        dispatch({ type: ActionTypes.OpenMenu })
+        dispatch({ type: ActionTypes.OpenMenu, reason: 'keyboard' })
         d.nextFrame(() => dispatch({ type: ActionTypes.GoToItem, focus: Focus.Last }))
         break
+
+      // Ref: https://www.w3.org/TR/wai-aria-practices-1.2/#keyboard-interaction-11
+      case Keys.ArrowLeft:
+        if (bar === null) break
+        event.preventDefault()
+        event.stopPropagation()
+        bar.move(id, Focus.Previous, false)
+        break
+
+      case Keys.ArrowRight:
+        if (bar === null) break
+        event.preventDefault()
+        event.stopPropagation()
+        bar.move(id, Focus.Next, false)
+        break
+
+      case Keys.Home:
+        if (bar === null) break
+        event.preventDefault()
+        event.stopPropagation()
+        bar.move(id, Focus.First, false)
+        break
+
+      case Keys.End:
+        if (bar === null) break
+        event.preventDefault()
+        event.stopPropagation()
+        bar.move(id, Focus.Last, false)
+        break
     }
   })
 
@@ -341,30 +696,82 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   let handleClick = useEvent((event: ReactMouseEvent) => {
     if (isDisabledReactIssue7711(event.currentTarget)) return event.preventDefault()
     if (props.disabled) return
+    if (parent !== null) {
+      // The button of a submenu only opens it, it closes again when moving away from it.
+      if (state.menuState === MenuStates.Open) return
+      event.preventDefault()
+      return openSubmenu(ActivationTrigger.Pointer)
+    }
     if (state.menuState === MenuStates.Open) {
-      dispatch({ type: ActionTypes.CloseMenu })
+      dispatch({ type: ActionTypes.CloseMenu, reason: 'pointer' })
       d.nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
     } else {
       event.preventDefault()
-      dispatch({ type: ActionTypes.OpenMenu })
+      dispatch({ type: ActionTypes.OpenMenu, reason: 'pointer' })
     }
   })
 
+  let handleMove = useEvent(() => {
+    if (props.disabled) return
+    openSubmenu(ActivationTrigger.Pointer)
+  })
+
+  let handleBarFocus = useEvent(() => bar?.setTabStop(id))
+
+  let handleBarMove = useEvent(() => {
+    if (props.disabled) return
+    bar?.switchTo(id)
+  })
+
+  let handleLeave = useEvent(() => {
+    if (!parentDispatch) return
+    if (props.disabled) return
+    if (!active) return
+    parentDispatch({
+      type: ActionTypes.GoToItem,
+      focus: Focus.Nothing,
+      trigger: ActivationTrigger.Pointer,
+    })
+  })
+
   let slot = useMemo<ButtonRenderPropArg>(
-    () => ({ open: state.menuState === MenuStates.Open }),
-    [state]
+    () => ({
+      open: state.menuState === MenuStates.Open,
+      active: parent === null ? undefined : active,
+    }),
+    [state, parent, active]
   )
   let theirProps = props
   let ourProps = {
     ref: buttonRef,
     id,
     type: useResolveButtonType(props, state.buttonRef),
-    'aria-haspopup': true,
+    'aria-haspopup': parent === null ? true : 'menu',
     'aria-controls': state.itemsRef.current?.id,
     'aria-expanded': props.disabled ? undefined : state.menuState === MenuStates.Open,
     onKeyDown: handleKeyDown,
     onKeyUp: handleKeyUp,
     onClick: handleClick,
+    ...(bar === null
+      ? {}
+      : {
+          role: 'menuitem',
+          'aria-haspopup': 'menu',
+          tabIndex: bar.tabStopId === id ? 0 : -1,
+          onFocus: handleBarFocus,
+          onPointerMove: handleBarMove,
+          onMouseMove: handleBarMove,
+        }),
+    ...(parent === null
+      ? {}
+      : {
+          role: 'menuitem',
+          tabIndex: -1,
+          onPointerMove: handleMove,
+          onMouseMove: handleMove,
+          onPointerLeave: handleLeave,
+          onMouseLeave: handleLeave,
+        }),
   }
 
   return render({
@@ -378,6 +785,85 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
 
 // ---
 
+let DEFAULT_CONTEXT_TRIGGER_TAG = 'div' as const
+interface ContextTriggerRenderPropArg {
+  open: boolean
+}
+
+let ContextTrigger = forwardRefWithAs(function ContextTrigger<
+  TTag extends ElementType = typeof DEFAULT_CONTEXT_TRIGGER_TAG
+>(
+  props: Props<TTag, ContextTriggerRenderPropArg> & {
+    disabled?: boolean
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { disabled = false, ...theirProps } = props
+  let [state, dispatch] = useMenuContext('Menu.ContextTrigger')
+  let triggerRef = useRef<HTMLElement | null>(null)
+  let contextTriggerRef = useSyncRefs(triggerRef, ref)
+  let ownerDocument = useOwnerDocument(triggerRef)
+  let d = useDisposables()
+
+  let openContextMenu = useEvent((x: number, y: number, reason: OpenChangeReason) => {
+    let returnFocus =
+      state.menuState === MenuStates.Open
+        ? state.contextMenu?.returnFocus ?? null
+        : (ownerDocument?.activeElement as HTMLElement | null) ?? null
+
+    dispatch({ type: ActionTypes.OpenMenu, reason, contextMenu: { x, y, returnFocus } })
+  })
+
+  let handleContextMenu = useEvent((event: ReactMouseEvent) => {
+    if (disabled) return
+    event.preventDefault()
+
+    // Browsers also dispatch a `contextmenu` event for the keyboard shortcuts we already handled.
+    if (
+      state.menuState === MenuStates.Open &&
+      state.contextMenu !== null &&
+      state.openChangeReason === 'keyboard'
+    ) {
+      return
+    }
+
+    openContextMenu(event.clientX, event.clientY, 'pointer')
+  })
+
+  let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLElement>) => {
+    if (disabled) return
+    if (event.key !== Keys.ContextMenu && !(event.key === Keys.F10 && event.shiftKey)) return
+
+    event.preventDefault()
+    event.stopPropagation()
+
+    // There are no pointer coordinates, so we open the menu below the focused element instead.
+    let rect = (event.target as HTMLElement).getBoundingClientRect()
+    openContextMenu(rect.left, rect.bottom, 'keyboard')
+    d.nextFrame(() => dispatch({ type: ActionTypes.GoToItem, focus: Focus.First }))
+  })
+
+  let slot = useMemo<ContextTriggerRenderPropArg>(
+    () => ({ open: state.menuState === MenuStates.Open && state.contextMenu !== null }),
+    [state]
+  )
+  let ourProps = {
+    ref: contextTriggerRef,
+    onContextMenu: handleContextMenu,
+    onKeyDown: handleKeyDown,
+  }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_CONTEXT_TRIGGER_TAG,
+    name: 'Menu.ContextTrigger',
+  })
+})
+
+// ---
+
 let DEFAULT_ITEMS_TAG = 'div' as const
 interface ItemsRenderPropArg {
   open: boolean
@@ -393,11 +879,16 @@ type ItemsPropsWeControl =
 let ItemsRenderFeatures = Features.RenderStrategy | Features.Static
 
 let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DEFAULT_ITEMS_TAG>(
-  props: Props<TTag, ItemsRenderPropArg, ItemsPropsWeControl> &
-    PropsForFeatures<typeof ItemsRenderFeatures>,
+  props: Props<TTag, ItemsRenderPropArg, ItemsPropsWeControl | 'anchor'> &
+    PropsForFeatures<typeof ItemsRenderFeatures> & {
+      anchor?: AnchorProps
+    },
   ref: Ref<HTMLDivElement>
 ) {
-  let [state, dispatch] = useMenuContext('Menu.Items')
+  let { anchor: anchorProp, ...theirProps } = props
+  let reducerBag = useMenuContext('Menu.Items')
+  let [state, dispatch] = reducerBag
+  let bar = useContext(MenuBarContext)
   let itemsRef = useSyncRefs(state.itemsRef, ref)
   let ownerDocument = useOwnerDocument(state.itemsRef)
 
@@ -413,6 +904,14 @@ let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DE
     return state.menuState === MenuStates.Open
   })()
 
+  // A context menu is already positioned at the pointer.
+  let anchor = useAnchor({
+    anchor: anchorProp,
+    enabled: visible && state.contextMenu === null,
+    referenceRef: state.buttonRef,
+    floatingRef: state.itemsRef,
+  })
+
   useEffect(() => {
     let container = state.itemsRef.current
     if (!container) return
@@ -438,6 +937,12 @@ let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DE
   let handleKeyDown = useEvent((event: ReactKeyboardEvent<HTMLDivElement>) => {
     searchDisposables.dispose()
 
+    // The items of a submenu live inside of the items of the parent menu, the parent menu should
+    // not react to the keyboard events of the submenu as well.
+    if (state.parentRef.current !== null) event.stopPropagation()
+
+    let activeItem = state.activeItemIndex !== null ? state.items[state.activeItemIndex] : null
+
     switch (event.key) {
       // Ref: https://www.w3.org/TR/wai-aria-practices-1.2/#keyboard-interaction-12
 
@@ -452,14 +957,38 @@ let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DE
       case Keys.Enter:
         event.preventDefault()
         event.stopPropagation()
-        dispatch({ type: ActionTypes.CloseMenu })
-        if (state.activeItemIndex !== null) {
-          let { dataRef } = state.items[state.activeItemIndex]
-          dataRef.current?.domRef.current?.click()
+        if (activeItem?.dataRef.current.openSubmenu) {
+          return activeItem.dataRef.current.openSubmenu()
+        }
+        if (activeItem?.dataRef.current.keepOpen) {
+          return activeItem.dataRef.current.domRef.current?.click()
         }
-        disposables().nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
+        closeMenuTree(state, dispatch)
+        activeItem?.dataRef.current?.domRef.current?.click()
         break
 
+      case Keys.ArrowRight:
+        if (activeItem?.dataRef.current.openSubmenu) {
+          event.preventDefault()
+          event.stopPropagation()
+          return activeItem.dataRef.current.openSubmenu()
+        }
+        if (bar === null || state.parentRef.current !== null || !state.buttonRef.current) break
+        event.preventDefault()
+        event.stopPropagation()
+        return bar.move(state.buttonRef.current.id, Focus.Next, true)
+
+      case Keys.ArrowLeft:
+        if (state.parentRef.current !== null) {
+          event.preventDefault()
+          event.stopPropagation()
+          return closeSubmenu(state, dispatch, 'keyboard')
+        }
+        if (bar === null || !state.buttonRef.current) break
+        event.preventDefault()
+        event.stopPropagation()
+        return bar.move(state.buttonRef.current.id, Focus.Previous, true)
+
       case Keys.ArrowDown:
         event.preventDefault()
         event.stopPropagation()
@@ -485,8 +1014,9 @@ let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DE
       case Keys.Escape:
         event.preventDefault()
         event.stopPropagation()
-        dispatch({ type: ActionTypes.CloseMenu })
-        disposables().nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
+        if (state.parentRef.current !== null) return closeSubmenu(state, dispatch, 'escape')
+        dispatch({ type: ActionTypes.CloseMenu, reason: 'escape' })
+        disposables().nextFrame(() => restoreFocus(state))
         break
 
       case Keys.Tab:
@@ -514,33 +1044,76 @@ let Items = forwardRefWithAs(function Items<TTag extends ElementType = typeof DE
     }
   })
 
+  // Moving the pointer into a submenu keeps its button active in the parent menu, which in turn
+  // keeps the submenu open.
+  let handleMove = useEvent(() => {
+    let parent = state.parentRef.current
+    if (parent === null) return
+
+    let [parentState, parentDispatch] = parent
+    let id = state.buttonRef.current?.id
+    if (!id) return
+    if (
+      parentState.activeItemIndex !== null &&
+      parentState.items[parentState.activeItemIndex]?.id === id
+    ) {
+      return
+    }
+
+    parentDispatch({
+      type: ActionTypes.GoToItem,
+      focus: Focus.Specific,
+      id,
+      trigger: ActivationTrigger.Pointer,
+    })
+  })
+
   let slot = useMemo<ItemsRenderPropArg>(
     () => ({ open: state.menuState === MenuStates.Open }),
     [state]
   )
 
-  let theirProps = props
   let ourProps = {
     'aria-activedescendant':
       state.activeItemIndex === null ? undefined : state.items[state.activeItemIndex]?.id,
     'aria-labelledby': state.buttonRef.current?.id,
+    'data-anchor': anchor.placement,
     id,
+    style:
+      state.contextMenu !== null
+        ? {
+            position: 'fixed',
+            left: state.contextMenu.x,
+            top: state.contextMenu.y,
+            ...theirProps.style,
+          }
+        : anchor.style
+        ? { ...anchor.style, ...theirProps.style }
+        : theirProps.style,
     onKeyDown: handleKeyDown,
     onKeyUp: handleKeyUp,
+    onPointerMove: handleMove,
+    onMouseMove: handleMove,
     role: 'menu',
     tabIndex: 0,
     ref: itemsRef,
   }
 
-  return render({
-    ourProps,
-    theirProps,
-    slot,
-    defaultTag: DEFAULT_ITEMS_TAG,
-    features: ItemsRenderFeatures,
-    visible,
-    name: 'Menu.Items',
-  })
+  return (
+    <ParentMenuContext.Provider value={reducerBag}>
+      <MenuBarContext.Provider value={null}>
+        {render({
+          ourProps,
+          theirProps,
+          slot,
+          defaultTag: DEFAULT_ITEMS_TAG,
+          features: ItemsRenderFeatures,
+          visible,
+          name: 'Menu.Items',
+        })}
+      </MenuBarContext.Provider>
+    </ParentMenuContext.Provider>
+  )
 })
 
 // ---
@@ -561,14 +1134,16 @@ type MenuItemPropsWeControl =
   | 'onMouseMove'
   | 'onFocus'
 
-let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFAULT_ITEM_TAG>(
-  props: Props<TTag, ItemRenderPropArg, MenuItemPropsWeControl> & {
-    disabled?: boolean
-  },
+function useMenuItem(
+  component: string,
+  {
+    disabled,
+    keepOpen = false,
+    onSelect,
+  }: { disabled: boolean; keepOpen?: boolean; onSelect?(): void },
   ref: Ref<HTMLElement>
 ) {
-  let { disabled = false, ...theirProps } = props
-  let [state, dispatch] = useMenuContext('Menu.Item')
+  let [state, dispatch] = useMenuContext(component)
   let id = `headlessui-menu-item-${useId()}`
   let active = state.activeItemIndex !== null ? state.items[state.activeItemIndex].id === id : false
   let internalItemRef = useRef<HTMLElement | null>(null)
@@ -583,13 +1158,22 @@ let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFA
       internalItemRef.current?.scrollIntoView?.({ block: 'nearest' })
     })
     return d.dispose
-  }, [internalItemRef, active, state.menuState, state.activationTrigger, /* We also want to trigger this when the position of the active item changes so that we can re-trigger the scrollIntoView */ state.activeItemIndex])
+  }, [
+    internalItemRef,
+    active,
+    state.menuState,
+    state.activationTrigger,
+    /* We also want to trigger this when the position of the active item changes so that we can re-trigger the scrollIntoView */ state.activeItemIndex,
+  ])
 
-  let bag = useRef<MenuItemDataRef['current']>({ disabled, domRef: internalItemRef })
+  let bag = useRef<MenuItemDataRef['current']>({ disabled, keepOpen, domRef: internalItemRef })
 
   useIsoMorphicEffect(() => {
     bag.current.disabled = disabled
   }, [bag, disabled])
+  useIsoMorphicEffect(() => {
+    bag.current.keepOpen = keepOpen
+  }, [bag, keepOpen])
   useIsoMorphicEffect(() => {
     bag.current.textValue = internalItemRef.current?.textContent?.toLowerCase()
   }, [bag, internalItemRef])
@@ -601,8 +1185,9 @@ let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFA
 
   let handleClick = useEvent((event: MouseEvent) => {
     if (disabled) return event.preventDefault()
-    dispatch({ type: ActionTypes.CloseMenu })
-    disposables().nextFrame(() => state.buttonRef.current?.focus({ preventScroll: true }))
+    onSelect?.()
+    if (keepOpen) return
+    closeMenuTree(state, dispatch)
   })
 
   let handleFocus = useEvent(() => {
@@ -624,14 +1209,16 @@ let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFA
   let handleLeave = useEvent(() => {
     if (disabled) return
     if (!active) return
-    dispatch({ type: ActionTypes.GoToItem, focus: Focus.Nothing })
+    dispatch({
+      type: ActionTypes.GoToItem,
+      focus: Focus.Nothing,
+      trigger: ActivationTrigger.Pointer,
+    })
   })
 
-  let slot = useMemo<ItemRenderPropArg>(() => ({ active, disabled }), [active, disabled])
   let ourProps = {
     id,
     ref: itemRef,
-    role: 'menuitem',
     tabIndex: disabled === true ? undefined : -1,
     'aria-disabled': disabled === true ? true : undefined,
     disabled: undefined, // Never forward the `disabled` prop
@@ -643,8 +1230,22 @@ let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFA
     onMouseLeave: handleLeave,
   }
 
+  return { active, ourProps }
+}
+
+let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFAULT_ITEM_TAG>(
+  props: Props<TTag, ItemRenderPropArg, MenuItemPropsWeControl> & {
+    disabled?: boolean
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { disabled = false, ...theirProps } = props
+  let { active, ourProps } = useMenuItem('Menu.Item', { disabled }, ref)
+
+  let slot = useMemo<ItemRenderPropArg>(() => ({ active, disabled }), [active, disabled])
+
   return render({
-    ourProps,
+    ourProps: { ...ourProps, role: 'menuitem' },
     theirProps,
     slot,
     defaultTag: DEFAULT_ITEM_TAG,
@@ -654,4 +1255,277 @@ let Item = forwardRefWithAs(function Item<TTag extends ElementType = typeof DEFA
 
 // ---
 
-export let Menu = Object.assign(MenuRoot, { Button, Items, Item })
+let DEFAULT_CHECKBOX_ITEM_TAG = Fragment
+interface CheckboxItemRenderPropArg {
+  active: boolean
+  disabled: boolean
+  checked: boolean
+}
+type CheckboxItemPropsWeControl = MenuItemPropsWeControl | 'aria-checked'
+
+let CheckboxItem = forwardRefWithAs(function CheckboxItem<
+  TTag extends ElementType = typeof DEFAULT_CHECKBOX_ITEM_TAG
+>(
+  props: Props<
+    TTag,
+    CheckboxItemRenderPropArg,
+    CheckboxItemPropsWeControl | 'checked' | 'defaultChecked' | 'onChange'
+  > & {
+    checked?: boolean
+    defaultChecked?: boolean
+    onChange?(checked: boolean): void
+    disabled?: boolean
+    keepOpen?: boolean
+  },
+  ref: Ref<HTMLElement>
+) {
+  let {
+    checked: controlledChecked,
+    defaultChecked = false,
+    onChange: controlledOnChange,
+    disabled = false,
+    keepOpen = false,
+    ...theirProps
+  } = props
+  let [checked, onChange] = useControllable(controlledChecked, controlledOnChange, defaultChecked)
+  let { active, ourProps } = useMenuItem(
+    'Menu.CheckboxItem',
+    { disabled, keepOpen, onSelect: () => onChange(!checked) },
+    ref
+  )
+
+  let slot = useMemo<CheckboxItemRenderPropArg>(
+    () => ({ active, disabled, checked }),
+    [active, disabled, checked]
+  )
+
+  return render({
+    ourProps: { ...ourProps, role: 'menuitemcheckbox', 'aria-checked': checked },
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_CHECKBOX_ITEM_TAG,
+    name: 'Menu.CheckboxItem',
+  })
+})
+
+// ---
+
+let RadioGroupContext = createContext<{
+  value: unknown
+  change(value: unknown): void
+  compare(a: unknown, z: unknown): boolean
+} | null>(null)
+RadioGroupContext.displayName = 'RadioGroupContext'
+
+function useRadioGroupContext(component: string) {
+  let context = useContext(RadioGroupContext)
+  if (context === null) {
+    let err = new Error(`<${component} /> is missing a parent <Menu.RadioGroup /> component.`)
+    if (Error.captureStackTrace) Error.captureStackTrace(err, useRadioGroupContext)
+    throw err
+  }
+  return context
+}
+
+let DEFAULT_RADIO_GROUP_TAG = 'div' as const
+interface RadioGroupRenderPropArg<TType> {
+  value: TType
+}
+type RadioGroupPropsWeControl = 'role'
+
+let RadioGroup = forwardRefWithAs(function RadioGroup<
+  TTag extends ElementType = typeof DEFAULT_RADIO_GROUP_TAG,
+  TType = string
+>(
+  props: Props<
+    TTag,
+    RadioGroupRenderPropArg<TType>,
+    RadioGroupPropsWeControl | 'value' | 'defaultValue' | 'onChange' | 'by'
+  > & {
+    value?: TType
+    defaultValue?: TType
+    onChange?(value: TType): void
+    by?: (keyof TType & string) | ((a: TType, z: TType) => boolean)
+  },
+  ref: Ref<HTMLElement>
+) {
+  let {
+    value: controlledValue,
+    defaultValue,
+    onChange: controlledOnChange,
+    by = (a, z) => a === z,
+    ...theirProps
+  } = props
+  let [value, onChange] = useControllable(controlledValue, controlledOnChange, defaultValue)
+  let compare = useEvent(
+    typeof by === 'string'
+      ? (a: TType, z: TType) => {
+          let property = by as unknown as keyof TType
+          return a[property] === z[property]
+        }
+      : by
+  )
+
+  let change = useEvent((nextValue: TType) => {
+    if (value !== undefined && compare(nextValue, value)) return
+    onChange(nextValue)
+  })
+
+  let contextBag = useMemo<ContextType<typeof RadioGroupContext>>(
+    () => ({ value, change, compare }),
+    [value, change, compare]
+  )
+
+  let slot = useMemo<RadioGroupRenderPropArg<TType>>(() => ({ value }), [value])
+  let ourProps = { ref, role: 'group' }
+
+  return (
+    <RadioGroupContext.Provider value={contextBag}>
+      {render({
+        ourProps,
+        theirProps,
+        slot,
+        defaultTag: DEFAULT_RADIO_GROUP_TAG,
+        name: 'Menu.RadioGroup',
+      })}
+    </RadioGroupContext.Provider>
+  )
+})
+
+// ---
+
+let DEFAULT_RADIO_ITEM_TAG = Fragment
+interface RadioItemRenderPropArg {
+  active: boolean
+  disabled: boolean
+  checked: boolean
+}
+type RadioItemPropsWeControl = MenuItemPropsWeControl | 'aria-checked'
+
+let RadioItem = forwardRefWithAs(function RadioItem<
+  TTag extends ElementType = typeof DEFAULT_RADIO_ITEM_TAG,
+  TType = string
+>(
+  props: Props<TTag, RadioItemRenderPropArg, RadioItemPropsWeControl | 'value'> & {
+    value: TType
+    disabled?: boolean
+    keepOpen?: boolean
+  },
+  ref: Ref<HTMLElement>
+) {
+  let { value, disabled = false, keepOpen = false, ...theirProps } = props
+  let group = useRadioGroupContext('Menu.RadioItem')
+  let checked = group.value !== undefined && group.compare(group.value, value)
+  let { active, ourProps } = useMenuItem(
+    'Menu.RadioItem',
+    { disabled, keepOpen, onSelect: () => group.change(value) },
+    ref
+  )
+
+  let slot = useMemo<RadioItemRenderPropArg>(
+    () => ({ active, disabled, checked }),
+    [active, disabled, checked]
+  )
+
+  return render({
+    ourProps: { ...ourProps, role: 'menuitemradio', 'aria-checked': checked },
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_RADIO_ITEM_TAG,
+    name: 'Menu.RadioItem',
+  })
+})
+
+// ---
+
+let DEFAULT_SECTION_TAG = 'div' as const
+interface SectionRenderPropArg {}
+type SectionPropsWeControl = 'role' | 'aria-labelledby'
+
+let Section = forwardRefWithAs(function Section<
+  TTag extends ElementType = typeof DEFAULT_SECTION_TAG
+>(props: Props<TTag, SectionRenderPropArg, SectionPropsWeControl>, ref: Ref<HTMLElement>) {
+  useMenuContext('Menu.Section')
+
+  let [groupProps, GroupProvider] = useGroup()
+
+  let slot = useMemo<SectionRenderPropArg>(() => ({}), [])
+  let theirProps = props
+  let ourProps = { ref, ...groupProps }
+
+  return (
+    <GroupProvider>
+      {render({
+        ourProps,
+        theirProps,
+        slot,
+        defaultTag: DEFAULT_SECTION_TAG,
+        name: 'Menu.Section',
+      })}
+    </GroupProvider>
+  )
+})
+
+// ---
+
+let DEFAULT_HEADING_TAG = 'div' as const
+interface HeadingRenderPropArg {}
+type HeadingPropsWeControl = 'id' | 'role'
+
+let Heading = forwardRefWithAs(function Heading<
+  TTag extends ElementType = typeof DEFAULT_HEADING_TAG
+>(props: Props<TTag, HeadingRenderPropArg, HeadingPropsWeControl>, ref: Ref<HTMLElement>) {
+  let headingProps = useGroupLabel('Menu.Heading', 'Menu.Section', 'menu-heading')
+
+  let slot = useMemo<HeadingRenderPropArg>(() => ({}), [])
+  let theirProps = props
+  let ourProps = { ref, ...headingProps }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_HEADING_TAG,
+    name: 'Menu.Heading',
+  })
+})
+
+// ---
+
+let DEFAULT_SEPARATOR_TAG = 'div' as const
+interface SeparatorRenderPropArg {}
+type SeparatorPropsWeControl = 'role'
+
+let Separator = forwardRefWithAs(function Separator<
+  TTag extends ElementType = typeof DEFAULT_SEPARATOR_TAG
+>(props: Props<TTag, SeparatorRenderPropArg, SeparatorPropsWeControl>, ref: Ref<HTMLElement>) {
+  useMenuContext('Menu.Separator')
+
+  let slot = useMemo<SeparatorRenderPropArg>(() => ({}), [])
+  let theirProps = props
+  let ourProps = { ref, role: 'separator' }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_SEPARATOR_TAG,
+    name: 'Menu.Separator',
+  })
+})
+
+// ---
+
+export let Menu = Object.assign(MenuRoot, {
+  Bar,
+  Button,
+  ContextTrigger,
+  Items,
+  Item,
+  CheckboxItem,
+  RadioGroup,
+  RadioItem,
+  Section,
+  Heading,
+  Separator,
+})
@@ -1,5 +1,5 @@
-import React, { createElement, useEffect, useRef, Fragment } from 'react'
-import { render } from '@testing-library/react'
+import React, { createElement, useEffect, useRef, useState, Fragment } from 'react'
+import { render, act, fireEvent } from '@testing-library/react'
 
 import { Popover } from './popover'
 import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
@@ -2330,3 +2330,482 @@ describe('Mouse interactions', () => {
     })
   )
 })
+
+describe('Controlled open state', () => {
+  it(
+    'should be possible to open the Popover by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover defaultOpen>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      assertPopoverButton({ state: PopoverState.Visible })
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      await click(getPopoverButton())
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should only open or close the Popover when the `open` prop changes',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(false)
+        let [locked, setLocked] = useState(false)
+
+        return (
+          <>
+            <Popover
+              open={open}
+              onChange={(open: boolean) => {
+                handleChange(open)
+                if (!locked) setOpen(open)
+              }}
+            >
+              <Popover.Button>Trigger</Popover.Button>
+              <Popover.Panel>Contents</Popover.Panel>
+            </Popover>
+            <button onClick={() => setLocked((locked) => !locked)}>Lock</button>
+            <button onClick={() => setOpen(true)}>Start tour</button>
+          </>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getPopoverButton())
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      await click(getPopoverButton())
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+
+      // The request to open is reported, but the Popover stays closed
+      await click(getByText('Lock'))
+      await click(getPopoverButton())
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+
+      // Opening from the outside is not reported
+      await click(getByText('Start tour'))
+      assertPopoverButton({ state: PopoverState.Visible })
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      expect(handleChange.mock.calls).toEqual([[true], [false], [true]])
+    })
+  )
+
+  it(
+    'should restore the focus to the Popover.Button when closing a controlled Popover with Escape',
+    suppressConsoleLogs(async () => {
+      function Example() {
+        let [open, setOpen] = useState(false)
+
+        return (
+          <Popover open={open} onChange={setOpen}>
+            <Popover.Button>Trigger</Popover.Button>
+            <Popover.Panel focus>
+              <a href="/">Link</a>
+            </Popover.Panel>
+          </Popover>
+        )
+      }
+
+      render(<Example />)
+
+      await click(getPopoverButton())
+      assertActiveElement(getByText('Link'))
+
+      await press(Keys.Escape)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+      assertActiveElement(getPopoverButton())
+    })
+  )
+
+  it(
+    'should close a controlled Popover when opening another Popover in the same Popover.Group',
+    suppressConsoleLogs(async () => {
+      let handleChange = jest.fn()
+      function Example() {
+        let [open, setOpen] = useState(true)
+
+        return (
+          <Popover.Group>
+            <Popover
+              open={open}
+              onChange={(open: boolean) => {
+                handleChange(open)
+                setOpen(open)
+              }}
+            >
+              <Popover.Button>Trigger 1</Popover.Button>
+              <Popover.Panel>Panel 1</Popover.Panel>
+            </Popover>
+            <Popover>
+              <Popover.Button>Trigger 2</Popover.Button>
+              <Popover.Panel>Panel 2</Popover.Panel>
+            </Popover>
+          </Popover.Group>
+        )
+      }
+
+      render(<Example />)
+      expect(getByText('Panel 1')).not.toBe(null)
+
+      await click(getByText('Trigger 2'))
+      expect(getByText('Panel 1')).toBe(null)
+      expect(getByText('Panel 2')).not.toBe(null)
+      expect(handleChange).toHaveBeenCalledWith(false)
+    })
+  )
+})
+
+describe('Anchor', () => {
+  it(
+    'should position the Popover.Panel against the Popover.Button',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel anchor={{ to: 'right start', gap: 8 }}>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      jest.spyOn(getPopoverButton()!, 'getBoundingClientRect').mockReturnValue({
+        left: 100,
+        top: 50,
+        right: 180,
+        bottom: 70,
+        width: 80,
+        height: 20,
+      } as DOMRect)
+
+      await click(getPopoverButton())
+      expect(getPopoverPanel()).toHaveAttribute('data-anchor', 'right start')
+      expect(getPopoverPanel()).toHaveStyle({ position: 'fixed', left: '188px', top: '50px' })
+    })
+  )
+})
+
+describe('Modal', () => {
+  it(
+    'should lock the scroll of the page while a modal Popover.Panel is open',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel modal>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      expect(document.documentElement.style.overflow).toBe('')
+
+      await click(getPopoverButton())
+      expect(document.documentElement.style.overflow).toBe('hidden')
+
+      await click(getPopoverButton())
+      expect(document.documentElement.style.overflow).toBe('')
+    })
+  )
+
+  it(
+    'should not lock the scroll of the page by default',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      await click(getPopoverButton())
+      expect(document.documentElement.style.overflow).toBe('')
+    })
+  )
+})
+
+describe('Hover mode', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  function advance(ms: number) {
+    act(() => void jest.advanceTimersByTime(ms))
+  }
+
+  // jsdom doesn't implement the `PointerEvent`, so we fake one with the properties we rely on.
+  function pointer(
+    type: 'pointerover' | 'pointerout' | 'pointermove',
+    element: Element | Document,
+    { pointerType = 'mouse', ...init }: MouseEventInit & { pointerType?: string } = {}
+  ) {
+    let event = new MouseEvent(type, { bubbles: true, cancelable: true, ...init })
+    Object.defineProperty(event, 'pointerType', { value: pointerType })
+    fireEvent(element, event)
+  }
+
+  it(
+    'should open the Popover on hover after the open delay and close it after the close delay',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={100} closeDelay={300}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      advance(50)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+      advance(50)
+      assertPopoverButton({ state: PopoverState.Visible })
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      pointer('pointerout', getPopoverButton()!)
+      advance(200)
+      assertPopoverPanel({ state: PopoverState.Visible })
+      advance(100)
+      assertPopoverButton({ state: PopoverState.InvisibleUnmounted })
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should not open the Popover when the pointer leaves before the open delay',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={100}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      advance(50)
+      pointer('pointerout', getPopoverButton()!)
+      advance(500)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should not open the Popover on hover without the hover prop',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      advance(1000)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should ignore touch pointers',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!, { pointerType: 'touch' })
+      advance(1000)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+
+      // Tapping still toggles the Popover
+      fireEvent.click(getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      pointer('pointerout', getPopoverButton()!, { pointerType: 'touch' })
+      advance(1000)
+      assertPopoverPanel({ state: PopoverState.Visible })
+    })
+  )
+
+  it(
+    'should keep the Popover open while moving the pointer from the Popover.Button into the Popover.Panel',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0} closeDelay={300}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      pointer('pointerout', getPopoverButton()!, { relatedTarget: getPopoverPanel() })
+      pointer('pointerover', getPopoverPanel()!, { relatedTarget: getPopoverButton() })
+      advance(1000)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      pointer('pointerout', getPopoverPanel()!)
+      advance(300)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should keep the Popover open while the pointer moves through the safe triangle towards the Popover.Panel',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0} closeDelay={300}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      jest.spyOn(getPopoverPanel()!, 'getBoundingClientRect').mockReturnValue({
+        left: 100,
+        top: 80,
+        right: 400,
+        bottom: 300,
+        width: 300,
+        height: 220,
+      } as DOMRect)
+
+      // Leave the bottom of the button, and move diagonally towards the panel
+      pointer('pointerout', getPopoverButton()!, { clientX: 170, clientY: 70 })
+      advance(200)
+      pointer('pointermove', document, { clientX: 200, clientY: 74 })
+      advance(200)
+      pointer('pointermove', document, { clientX: 250, clientY: 78 })
+      advance(200)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      // Moving away from the panel closes it after the close delay
+      pointer('pointermove', document, { clientX: 600, clientY: 20 })
+      advance(300)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should keep the Popover open when clicking the Popover.Button after it opened on hover',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0} closeDelay={300}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      fireEvent.click(getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      // The Popover is no longer closed by leaving it
+      pointer('pointerout', getPopoverButton()!)
+      advance(1000)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      // But clicking it again closes it
+      fireEvent.click(getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should close the Popover on `Escape` after it opened on hover',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      fireEvent.keyDown(document.body, { key: 'Escape' })
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should ignore an `Escape` that was handled already',
+    suppressConsoleLogs(async () => {
+      render(
+        <>
+          <Popover hover openDelay={0}>
+            <Popover.Button>Trigger</Popover.Button>
+            <Popover.Panel>Contents</Popover.Panel>
+          </Popover>
+          <div onKeyDown={(event) => event.preventDefault()}>Handled</div>
+        </>
+      )
+
+      pointer('pointerover', getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      fireEvent.keyDown(getByText('Handled')!, { key: 'Escape' })
+      assertPopoverPanel({ state: PopoverState.Visible })
+    })
+  )
+
+  it(
+    'should not close the Popover on an `Escape` elsewhere on the page when it was opened by a click',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover hover openDelay={0}>
+          <Popover.Button>Trigger</Popover.Button>
+          <Popover.Panel>Contents</Popover.Panel>
+        </Popover>
+      )
+
+      fireEvent.click(getPopoverButton()!)
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      fireEvent.keyDown(document.body, { key: 'Escape' })
+      assertPopoverPanel({ state: PopoverState.Visible })
+
+      // The Popover still closes on `Escape` once it was pinned after opening on hover
+      fireEvent.click(getPopoverButton()!)
+      pointer('pointerover', getPopoverButton()!)
+      fireEvent.click(getPopoverButton()!)
+      fireEvent.keyDown(getPopoverButton()!, { key: 'Escape' })
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should close the other Popover components in a Popover.Group when opening on hover',
+    suppressConsoleLogs(async () => {
+      render(
+        <Popover.Group>
+          <Popover hover openDelay={100}>
+            <Popover.Button>Trigger 1</Popover.Button>
+            <Popover.Panel>Panel 1</Popover.Panel>
+          </Popover>
+          <Popover hover openDelay={100}>
+            <Popover.Button>Trigger 2</Popover.Button>
+            <Popover.Panel>Panel 2</Popover.Panel>
+          </Popover>
+        </Popover.Group>
+      )
+
+      pointer('pointerover', getByText('Trigger 1')!)
+      advance(100)
+      expect(getByText('Panel 1')).not.toBe(null)
+
+      pointer('pointerout', getByText('Trigger 1')!, { relatedTarget: getByText('Trigger 2') })
+      pointer('pointerover', getByText('Trigger 2')!, { relatedTarget: getByText('Trigger 1') })
+      advance(100)
+      expect(getByText('Panel 1')).toBe(null)
+      expect(getByText('Panel 2')).not.toBe(null)
+    })
+  )
+})
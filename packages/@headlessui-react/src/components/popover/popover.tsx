@@ -15,6 +15,7 @@ import React, {
   FocusEvent as ReactFocusEvent,
   KeyboardEvent as ReactKeyboardEvent,
   MouseEvent as ReactMouseEvent,
+  PointerEvent as ReactPointerEvent,
   MutableRefObject,
   Ref,
 } from 'react'
@@ -36,6 +37,7 @@ import {
 import { OpenClosedProvider, State, useOpenClosed } from '../../internal/open-closed'
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { useOutsideClick } from '../../hooks/use-outside-click'
+import { LayerProvider } from '../../hooks/use-layer'
 import { getOwnerDocument } from '../../utils/owner'
 import { useOwnerDocument } from '../../hooks/use-owner'
 import { useEventListener } from '../../hooks/use-event-listener'
@@ -43,6 +45,14 @@ import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
 import { useEvent } from '../../hooks/use-event'
 import { useTabDirection, Direction as TabDirection } from '../../hooks/use-tab-direction'
 import { microTask } from '../../utils/micro-task'
+import { useLatestValue } from '../../hooks/use-latest-value'
+import { useAnchor } from '../../hooks/use-anchor'
+import { useScrollLock } from '../../hooks/use-scroll-lock'
+import { AnchorProps } from '../../utils/anchor'
+import { useDisposables } from '../../hooks/use-disposables'
+import { disposables } from '../../utils/disposables'
+import { isWithinSafeTriangle } from '../../utils/safe-triangle'
+import { useOpenChange } from '../../hooks/use-open-change'
 
 enum PopoverStates {
   Open,
@@ -62,6 +72,7 @@ interface StateDefinition {
 }
 
 enum ActionTypes {
+  OpenPopover,
   TogglePopover,
   ClosePopover,
 
@@ -72,6 +83,7 @@ enum ActionTypes {
 }
 
 type Actions =
+  | { type: ActionTypes.OpenPopover }
   | { type: ActionTypes.TogglePopover }
   | { type: ActionTypes.ClosePopover }
   | { type: ActionTypes.SetButton; button: HTMLElement | null }
@@ -85,6 +97,10 @@ let reducers: {
     action: Extract<Actions, { type: P }>
   ) => StateDefinition
 } = {
+  [ActionTypes.OpenPopover](state) {
+    if (state.popoverState === PopoverStates.Open) return state
+    return { ...state, popoverState: PopoverStates.Open }
+  },
   [ActionTypes.TogglePopover]: (state) => ({
     ...state,
     popoverState: match(state.popoverState, {
@@ -130,6 +146,9 @@ function usePopoverContext(component: string) {
 let PopoverAPIContext = createContext<{
   close(focusableElement?: HTMLElement | MutableRefObject<HTMLElement | null>): void
   isPortalled: boolean
+  handleHoverEnter(event: ReactPointerEvent): void
+  handleHoverLeave(event: ReactPointerEvent): void
+  pinHover(): boolean
 } | null>(null)
 PopoverAPIContext.displayName = 'PopoverAPIContext'
 
@@ -171,6 +190,10 @@ function stateReducer(state: StateDefinition, action: Actions) {
   return match(action.type, reducers, state, action)
 }
 
+function createOpenChangeAction(open: boolean): Actions {
+  return open ? { type: ActionTypes.OpenPopover } : { type: ActionTypes.ClosePopover }
+}
+
 // ---
 
 let DEFAULT_POPOVER_TAG = 'div' as const
@@ -181,7 +204,30 @@ interface PopoverRenderPropArg {
 
 let PopoverRoot = forwardRefWithAs(function Popover<
   TTag extends ElementType = typeof DEFAULT_POPOVER_TAG
->(props: Props<TTag, PopoverRenderPropArg>, ref: Ref<HTMLElement>) {
+>(
+  props: Props<
+    TTag,
+    PopoverRenderPropArg,
+    'open' | 'defaultOpen' | 'onChange' | 'hover' | 'openDelay' | 'closeDelay'
+  > & {
+    open?: boolean
+    defaultOpen?: boolean
+    onChange?(open: boolean): void
+    hover?: boolean
+    openDelay?: number
+    closeDelay?: number
+  },
+  ref: Ref<HTMLElement>
+) {
+  let {
+    open: controlledOpen,
+    defaultOpen = false,
+    onChange,
+    hover = false,
+    openDelay = 100,
+    closeDelay = 300,
+    ...theirProps
+  } = props
   let buttonId = `headlessui-popover-button-${useId()}`
   let panelId = `headlessui-popover-panel-${useId()}`
   let internalPopoverRef = useRef<HTMLElement | null>(null)
@@ -192,8 +238,8 @@ let PopoverRoot = forwardRefWithAs(function Popover<
     })
   )
 
-  let reducerBag = useReducer(stateReducer, {
-    popoverState: PopoverStates.Closed,
+  let [state, internalDispatch] = useReducer(stateReducer, {
+    popoverState: controlledOpen ?? defaultOpen ? PopoverStates.Open : PopoverStates.Closed,
     button: null,
     buttonId,
     panel: null,
@@ -201,8 +247,26 @@ let PopoverRoot = forwardRefWithAs(function Popover<
     beforePanelSentinel: createRef(),
     afterPanelSentinel: createRef(),
   } as StateDefinition)
-  let [{ popoverState, button, panel, beforePanelSentinel, afterPanelSentinel }, dispatch] =
-    reducerBag
+  let { popoverState, button, panel, beforePanelSentinel, afterPanelSentinel } = state
+  let dispatch = useOpenChange<Actions>({
+    open: popoverState === PopoverStates.Open,
+    controlledOpen,
+    onOpenChange: (open) => onChange?.(open),
+    dispatch: internalDispatch,
+    resolveOpenChange: (action) => {
+      if (action.type === ActionTypes.OpenPopover) return { open: true, reason: null }
+      if (action.type === ActionTypes.ClosePopover) return { open: false, reason: null }
+      if (action.type === ActionTypes.TogglePopover) {
+        return { open: popoverState !== PopoverStates.Open, reason: null }
+      }
+      return null
+    },
+    createAction: createOpenChangeAction,
+  })
+  let reducerBag = useMemo<[StateDefinition, Dispatch<Actions>]>(
+    () => [state, dispatch],
+    [state, dispatch]
+  )
 
   let ownerDocument = useOwnerDocument(internalPopoverRef.current ?? button)
 
@@ -258,7 +322,7 @@ let PopoverRoot = forwardRefWithAs(function Popover<
   )
 
   // Handle outside click
-  useOutsideClick(
+  let [layer, isTopLayer] = useOutsideClick(
     [button, panel],
     (event, target) => {
       dispatch({ type: ActionTypes.ClosePopover })
@@ -285,9 +349,120 @@ let PopoverRoot = forwardRefWithAs(function Popover<
     restoreElement?.focus()
   })
 
+  // Handle hover mode
+  let d = useDisposables()
+  let [openedByHover, setOpenedByHover] = useState(false)
+  let cancelPendingHover = useRef<(() => void) | null>(null)
+  let stopTrackingPointer = useRef<(() => void) | null>(null)
+
+  let cancelHover = useEvent(() => {
+    cancelPendingHover.current?.()
+    cancelPendingHover.current = null
+    stopTrackingPointer.current?.()
+    stopTrackingPointer.current = null
+  })
+
+  let scheduleHover = useEvent((action: () => void, delay: number) => {
+    cancelPendingHover.current?.()
+    cancelPendingHover.current = null
+
+    if (delay <= 0) return action()
+    cancelPendingHover.current = d.setTimeout(action, delay)
+  })
+
+  let hoverOpen = useEvent(() => {
+    cancelHover()
+    groupContext?.closeOthers(buttonId)
+    setOpenedByHover(true)
+    dispatch({ type: ActionTypes.OpenPopover })
+  })
+
+  let hoverClose = useEvent(() => {
+    cancelHover()
+    dispatch({ type: ActionTypes.ClosePopover })
+  })
+
+  let handleHoverEnter = useEvent((event: ReactPointerEvent) => {
+    if (!hover) return
+    if (event.pointerType === 'touch') return
+
+    cancelHover()
+    if (popoverState === PopoverStates.Open) return
+    if (event.currentTarget !== button) return
+
+    scheduleHover(hoverOpen, openDelay)
+  })
+
+  let handleHoverLeave = useEvent((event: ReactPointerEvent) => {
+    if (!hover) return
+    if (event.pointerType === 'touch') return
+
+    cancelHover()
+    if (popoverState !== PopoverStates.Open) return
+    if (!openedByHover) return
+
+    scheduleHover(hoverClose, closeDelay)
+
+    // While the pointer moves towards the other element (e.g. diagonally from the button into the
+    // panel), we keep postponing the close so that crossing other elements doesn't close it.
+    let target = event.currentTarget === button ? panel : button
+    if (!target) return
+
+    let origin = { x: event.clientX, y: event.clientY }
+    let ownerDocument = getOwnerDocument(target)
+    if (!ownerDocument) return
+
+    function handlePointerMove(event: PointerEvent) {
+      let point = { x: event.clientX, y: event.clientY }
+      if (!isWithinSafeTriangle(origin, target!.getBoundingClientRect(), point)) return
+      scheduleHover(hoverClose, closeDelay)
+    }
+
+    ownerDocument.addEventListener('pointermove', handlePointerMove)
+    stopTrackingPointer.current = d.add(() => {
+      ownerDocument!.removeEventListener('pointermove', handlePointerMove)
+    })
+  })
+
+  // Clicking the button of a popover that was opened by hovering keeps it open until it is closed
+  // explicitly.
+  let pinHover = useEvent(() => {
+    cancelHover()
+    if (popoverState !== PopoverStates.Open) return false
+    if (!openedByHover) return false
+
+    setOpenedByHover(false)
+    return true
+  })
+
+  useEffect(() => {
+    if (popoverState === PopoverStates.Closed) setOpenedByHover(false)
+  }, [popoverState])
+
+  // Handle `Escape` while the Popover is opened on hover, because the focus is somewhere else then
+  let handleHoverEscape = useEvent((event: KeyboardEvent) => {
+    if (event.defaultPrevented) return
+    if (event.key !== Keys.Escape) return
+    if (!isTopLayer(event)) return
+    event.preventDefault()
+    hoverClose()
+  })
+
+  useEffect(() => {
+    if (popoverState !== PopoverStates.Open) return
+    if (!openedByHover) return
+
+    let ownerWindow = ownerDocument?.defaultView
+    if (!ownerWindow) return
+
+    let d = disposables()
+    d.addEventListener(ownerWindow, 'keydown', handleHoverEscape)
+    return d.dispose
+  }, [popoverState, openedByHover, ownerDocument, handleHoverEscape])
+
   let api = useMemo<ContextType<typeof PopoverAPIContext>>(
-    () => ({ close, isPortalled }),
-    [close, isPortalled]
+    () => ({ close, isPortalled, handleHoverEnter, handleHoverLeave, pinHover }),
+    [close, isPortalled, handleHoverEnter, handleHoverLeave, pinHover]
   )
 
   let slot = useMemo<PopoverRenderPropArg>(
@@ -295,28 +470,29 @@ let PopoverRoot = forwardRefWithAs(function Popover<
     [popoverState, close]
   )
 
-  let theirProps = props
   let ourProps = { ref: popoverRef }
 
   return (
-    <PopoverContext.Provider value={reducerBag}>
-      <PopoverAPIContext.Provider value={api}>
-        <OpenClosedProvider
-          value={match(popoverState, {
-            [PopoverStates.Open]: State.Open,
-            [PopoverStates.Closed]: State.Closed,
-          })}
-        >
-          {render({
-            ourProps,
-            theirProps,
-            slot,
-            defaultTag: DEFAULT_POPOVER_TAG,
-            name: 'Popover',
-          })}
-        </OpenClosedProvider>
-      </PopoverAPIContext.Provider>
-    </PopoverContext.Provider>
+    <LayerProvider value={layer}>
+      <PopoverContext.Provider value={reducerBag}>
+        <PopoverAPIContext.Provider value={api}>
+          <OpenClosedProvider
+            value={match(popoverState, {
+              [PopoverStates.Open]: State.Open,
+              [PopoverStates.Closed]: State.Closed,
+            })}
+          >
+            {render({
+              ourProps,
+              theirProps,
+              slot,
+              defaultTag: DEFAULT_POPOVER_TAG,
+              name: 'Popover',
+            })}
+          </OpenClosedProvider>
+        </PopoverAPIContext.Provider>
+      </PopoverContext.Provider>
+    </LayerProvider>
   )
 })
 
@@ -339,7 +515,8 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
   ref: Ref<HTMLButtonElement>
 ) {
   let [state, dispatch] = usePopoverContext('Popover.Button')
-  let { isPortalled } = usePopoverAPIContext('Popover.Button')
+  let { isPortalled, handleHoverEnter, handleHoverLeave, pinHover } =
+    usePopoverAPIContext('Popover.Button')
   let internalButtonRef = useRef<HTMLButtonElement | null>(null)
 
   let sentinelId = `headlessui-focus-sentinel-${useId()}`
@@ -417,8 +594,10 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
     } else {
       event.preventDefault()
       event.stopPropagation()
-      if (state.popoverState === PopoverStates.Closed) closeOthers?.(state.buttonId)
-      dispatch({ type: ActionTypes.TogglePopover })
+      if (!pinHover()) {
+        if (state.popoverState === PopoverStates.Closed) closeOthers?.(state.buttonId)
+        dispatch({ type: ActionTypes.TogglePopover })
+      }
       state.button?.focus()
     }
   })
@@ -450,6 +629,8 @@ let Button = forwardRefWithAs(function Button<TTag extends ElementType = typeof
         onKeyUp: handleKeyUp,
         onClick: handleClick,
         onMouseDown: handleMouseDown,
+        onPointerEnter: handleHoverEnter,
+        onPointerLeave: handleHoverLeave,
       }
 
   let direction = useTabDirection()
@@ -566,16 +747,19 @@ type PanelPropsWeControl = 'id' | 'onKeyDown'
 let PanelRenderFeatures = Features.RenderStrategy | Features.Static
 
 let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DEFAULT_PANEL_TAG>(
-  props: Props<TTag, PanelRenderPropArg, PanelPropsWeControl> &
+  props: Props<TTag, PanelRenderPropArg, PanelPropsWeControl | 'anchor' | 'modal'> &
     PropsForFeatures<typeof PanelRenderFeatures> & {
       focus?: boolean
+      anchor?: AnchorProps
+      modal?: boolean
     },
   ref: Ref<HTMLDivElement>
 ) {
-  let { focus = false, ...theirProps } = props
+  let { focus = false, anchor: anchorProp, modal = false, ...theirProps } = props
 
   let [state, dispatch] = usePopoverContext('Popover.Panel')
-  let { close, isPortalled } = usePopoverAPIContext('Popover.Panel')
+  let { close, isPortalled, handleHoverEnter, handleHoverLeave } =
+    usePopoverAPIContext('Popover.Panel')
 
   let beforePanelSentinelId = `headlessui-focus-sentinel-before-${useId()}`
   let afterPanelSentinelId = `headlessui-focus-sentinel-after-${useId()}`
@@ -595,6 +779,17 @@ let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DE
     return state.popoverState === PopoverStates.Open
   })()
 
+  let latestButton = useLatestValue(state.button)
+  let anchor = useAnchor({
+    anchor: anchorProp,
+    enabled: visible,
+    referenceRef: latestButton,
+    floatingRef: internalPanelRef,
+  })
+
+  // A modal Popover.Panel locks the scroll of the page, the Popover.Panel itself can still scroll
+  useScrollLock(ownerDocument, visible && modal, () => [internalPanelRef.current])
+
   let handleKeyDown = useEvent((event: KeyboardEvent) => {
     switch (event.key) {
       case Keys.Escape:
@@ -643,7 +838,11 @@ let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DE
   let ourProps = {
     ref: panelRef,
     id: state.panelId,
+    'data-anchor': anchor.placement,
+    style: anchor.style ? { ...anchor.style, ...theirProps.style } : theirProps.style,
     onKeyDown: handleKeyDown,
+    onPointerEnter: handleHoverEnter,
+    onPointerLeave: handleHoverLeave,
     onBlur:
       focus && state.popoverState === PopoverStates.Open
         ? (event: ReactFocusEvent) => {
@@ -1,6 +1,6 @@
 import React, { createElement, useState } from 'react'
 
-import { render } from '@testing-library/react'
+import { render, act } from '@testing-library/react'
 
 import { RadioGroup } from './radio-group'
 
@@ -9,6 +9,7 @@ import { press, focus, Keys, shift, click } from '../../test-utils/interactions'
 import {
   getByText,
   assertRadioGroupLabel,
+  getRadioGroup,
   getRadioGroupOptions,
   assertFocusable,
   assertNotFocusable,
@@ -1103,6 +1104,143 @@ describe('Mouse interactions', () => {
 })
 
 describe('Form compatibility', () => {
+  it(
+    'should not be possible to submit a form when a required radio group has no value',
+    suppressConsoleLogs(async () => {
+      let submits = jest.fn()
+
+      function Example() {
+        return (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              submits([...new FormData(event.currentTarget).entries()])
+            }}
+          >
+            <RadioGroup name="delivery" required>
+              <RadioGroup.Label>Pizza Delivery</RadioGroup.Label>
+              <RadioGroup.Option value="pickup">Pickup</RadioGroup.Option>
+              <RadioGroup.Option value="home-delivery">Home delivery</RadioGroup.Option>
+            </RadioGroup>
+            <button>Submit</button>
+          </form>
+        )
+      }
+
+      render(<Example />)
+
+      // Verify that the form is invalid
+      act(() => void expect(document.querySelector('form')!.reportValidity()).toBe(false))
+
+      // Verify that the control is marked as invalid
+      expect(getRadioGroup()).toHaveAttribute('aria-invalid', 'true')
+      expect(getRadioGroup()).toHaveAttribute(
+        'data-headlessui-state',
+        expect.stringContaining('invalid')
+      )
+
+      // Verify that the first option received focus
+      assertActiveElement(getByText('Pickup'))
+
+      // Choose home delivery
+      await click(getByText('Home delivery'))
+      expect(getRadioGroup()).not.toHaveAttribute('aria-invalid')
+
+      // Submit the form again
+      await click(getByText('Submit'))
+
+      // Verify that the form has been submitted
+      expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+    })
+  )
+
+  it(
+    'should reset the radio group to its default value when the form is reset',
+    suppressConsoleLogs(async () => {
+      let submits = jest.fn()
+
+      function Example() {
+        return (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              submits([...new FormData(event.currentTarget).entries()])
+            }}
+          >
+            <RadioGroup name="delivery" defaultValue="pickup">
+              <RadioGroup.Label>Pizza Delivery</RadioGroup.Label>
+              <RadioGroup.Option value="pickup">Pickup</RadioGroup.Option>
+              <RadioGroup.Option value="home-delivery">Home delivery</RadioGroup.Option>
+            </RadioGroup>
+            <button type="reset">Reset</button>
+            <button>Submit</button>
+          </form>
+        )
+      }
+
+      render(<Example />)
+
+      // Choose home delivery
+      await click(getByText('Home delivery'))
+
+      // Reset the form
+      await click(getByText('Reset'))
+
+      // Submit the form
+      await click(getByText('Submit'))
+
+      // Verify that the default value has been restored
+      expect(submits).lastCalledWith([['delivery', 'pickup']])
+    })
+  )
+
+  it(
+    'should be possible to submit a form using an uncontrolled radio group',
+    suppressConsoleLogs(async () => {
+      let submits = jest.fn()
+      let handleChange = jest.fn()
+
+      function Example() {
+        return (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault()
+              submits([...new FormData(event.currentTarget).entries()])
+            }}
+          >
+            <RadioGroup defaultValue="pickup" onChange={handleChange} name="delivery">
+              <RadioGroup.Label>Pizza Delivery</RadioGroup.Label>
+              <RadioGroup.Option value="pickup">Pickup</RadioGroup.Option>
+              <RadioGroup.Option value="home-delivery">Home delivery</RadioGroup.Option>
+              <RadioGroup.Option value="dine-in">Dine in</RadioGroup.Option>
+            </RadioGroup>
+            <button>Submit</button>
+          </form>
+        )
+      }
+
+      render(<Example />)
+
+      // Submit the form
+      await click(getByText('Submit'))
+
+      // Verify that the form has been submitted with the default value
+      expect(submits).lastCalledWith([['delivery', 'pickup']])
+
+      // Choose home delivery
+      await click(getByText('Home delivery'))
+
+      // Verify that the change has been emitted
+      expect(handleChange).toHaveBeenNthCalledWith(1, 'home-delivery')
+
+      // Submit the form again
+      await click(getByText('Submit'))
+
+      // Verify that the form has been submitted with the new value
+      expect(submits).lastCalledWith([['delivery', 'home-delivery']])
+    })
+  )
+
   it(
     'should be possible to submit a form with a value',
     suppressConsoleLogs(async () => {
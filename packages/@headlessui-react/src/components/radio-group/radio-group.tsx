@@ -26,9 +26,11 @@ import { Description, useDescriptions } from '../../components/description/descr
 import { useTreeWalker } from '../../hooks/use-tree-walker'
 import { useSyncRefs } from '../../hooks/use-sync-refs'
 import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
+import { FormControl, useInvalid } from '../../internal/form-control'
 import { attemptSubmit, objectToFormEntries } from '../../utils/form'
 import { getOwnerDocument } from '../../utils/owner'
 import { useEvent } from '../../hooks/use-event'
+import { useControllable } from '../../hooks/use-controllable'
 
 interface Option<T = unknown> {
   id: string
@@ -103,8 +105,15 @@ function stateReducer<T>(state: StateDefinition<T>, action: Actions) {
 // ---
 
 let DEFAULT_RADIO_GROUP_TAG = 'div' as const
-interface RadioGroupRenderPropArg {}
-type RadioGroupPropsWeControl = 'role' | 'aria-labelledby' | 'aria-describedby' | 'id'
+interface RadioGroupRenderPropArg {
+  invalid: boolean
+}
+type RadioGroupPropsWeControl =
+  | 'role'
+  | 'aria-invalid'
+  | 'aria-labelledby'
+  | 'aria-describedby'
+  | 'id'
 
 let RadioGroupRoot = forwardRefWithAs(function RadioGroup<
   TTag extends ElementType = typeof DEFAULT_RADIO_GROUP_TAG,
@@ -113,17 +122,40 @@ let RadioGroupRoot = forwardRefWithAs(function RadioGroup<
   props: Props<
     TTag,
     RadioGroupRenderPropArg,
-    RadioGroupPropsWeControl | 'value' | 'onChange' | 'disabled' | 'name' | 'by'
+    | RadioGroupPropsWeControl
+    | 'value'
+    | 'defaultValue'
+    | 'onChange'
+    | 'disabled'
+    | 'name'
+    | 'by'
+    | 'required'
+    | 'validationMessage'
   > & {
-    value: TType
-    onChange(value: TType): void
+    value?: TType
+    defaultValue?: TType
+    onChange?(value: TType): void
     by?: (keyof TType & string) | ((a: TType, z: TType) => boolean)
     disabled?: boolean
     name?: string
+    required?: boolean
+    validationMessage?: string
   },
   ref: Ref<HTMLElement>
 ) {
-  let { value, name, onChange, by = (a, z) => a === z, disabled = false, ...theirProps } = props
+  let {
+    value: controlledValue,
+    defaultValue,
+    name,
+    onChange: controlledOnChange,
+    by = (a, z) => a === z,
+    disabled = false,
+    required = false,
+    validationMessage,
+    ...theirProps
+  } = props
+  let [value, onChange] = useControllable(controlledValue, controlledOnChange, defaultValue)
+  let initialValue = useRef(value)
   let compare = useEvent(
     typeof by === 'string'
       ? (a: TType, z: TType) => {
@@ -239,6 +271,21 @@ let RadioGroupRoot = forwardRefWithAs(function RadioGroup<
     }
   })
 
+  let [invalid, markInvalid] = useInvalid({ filled: value != null, required, validationMessage })
+  let handleInvalid = useEvent((shouldFocus: boolean) => {
+    markInvalid()
+    if (!shouldFocus) return
+
+    let checkedOption = options.find((option) =>
+      compare(option.propsRef.current.value as TType, value)
+    )
+    ;(checkedOption ?? firstOption)?.element.current?.focus()
+  })
+  let handleReset = useEvent(() => {
+    if (value === initialValue.current) return
+    onChange(initialValue.current)
+  })
+
   let registerOption = useEvent((option: Option) => {
     dispatch({ type: ActionTypes.RegisterOption, ...option })
     return () => dispatch({ type: ActionTypes.UnregisterOption, id: option.id })
@@ -257,10 +304,13 @@ let RadioGroupRoot = forwardRefWithAs(function RadioGroup<
     [registerOption, firstOption, containsCheckedOption, triggerChange, disabled, value, compare]
   )
 
+  let slot = useMemo<RadioGroupRenderPropArg>(() => ({ invalid }), [invalid])
+
   let ourProps = {
     ref: radioGroupRef,
     id,
     role: 'radiogroup',
+    'aria-invalid': invalid ? true : undefined,
     'aria-labelledby': labelledby,
     'aria-describedby': describedby,
     onKeyDown: handleKeyDown,
@@ -287,9 +337,19 @@ let RadioGroupRoot = forwardRefWithAs(function RadioGroup<
                 })}
               />
             ))}
+          {(name != null || required) && (
+            <FormControl
+              filled={value != null}
+              required={required}
+              validationMessage={validationMessage}
+              onInvalid={handleInvalid}
+              onReset={handleReset}
+            />
+          )}
           {render({
             ourProps,
             theirProps,
+            slot,
             defaultTag: DEFAULT_RADIO_GROUP_TAG,
             name: 'RadioGroup',
           })}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react'
-import { render } from '@testing-library/react'
+import { render, act } from '@testing-library/react'
 
 import { Switch } from './switch'
 import {
@@ -431,6 +431,124 @@ describe('Mouse interactions', () => {
 })
 
 describe('Form compatibility', () => {
+  it('should not be possible to submit a form when a required switch is not checked', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      let [state, setState] = useState(false)
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Switch.Group>
+            <Switch checked={state} onChange={setState} name="terms" required />
+            <Switch.Label>Accept terms</Switch.Label>
+          </Switch.Group>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Verify that the form is invalid
+    act(() => void expect(document.querySelector('form')!.reportValidity()).toBe(false))
+
+    // Verify that the control is marked as invalid
+    expect(getSwitch()).toHaveAttribute('aria-invalid', 'true')
+    expect(getSwitch()).toHaveAttribute('data-headlessui-state', expect.stringContaining('invalid'))
+
+    // Verify that the switch received focus
+    assertActiveElement(getSwitch())
+
+    // Toggle
+    await click(getSwitch())
+    expect(getSwitch()).not.toHaveAttribute('aria-invalid')
+
+    // Submit the form again
+    await click(getByText('Submit'))
+
+    // Verify that the form has been submitted
+    expect(submits).lastCalledWith([['terms', 'on']])
+  })
+
+  it('should only move the focus to the first invalid switch', async () => {
+    render(
+      <form>
+        <Switch checked={false} onChange={() => {}} name="terms" required>
+          Terms
+        </Switch>
+        <Switch checked={false} onChange={() => {}} name="privacy" required>
+          Privacy
+        </Switch>
+      </form>
+    )
+
+    act(() => void expect(document.querySelector('form')!.reportValidity()).toBe(false))
+
+    // Verify that both switches are invalid, but only the first one received focus
+    expect(getByText('Terms')).toHaveAttribute('aria-invalid', 'true')
+    expect(getByText('Privacy')).toHaveAttribute('aria-invalid', 'true')
+    assertActiveElement(getByText('Terms'))
+  })
+
+  it('should not add a field that blocks the implicit submission of the form', async () => {
+    render(
+      <form>
+        <input name="query" />
+        <Switch checked={false} onChange={() => {}} name="notifications" />
+        <Switch checked={false} onChange={() => {}} name="terms" required />
+      </form>
+    )
+
+    // jsdom doesn't implement implicit submission, a form with more than one of these fields and
+    // without a submit button is not submitted when pressing `Enter`.
+    let blocking = ['text', 'search', 'url', 'tel', 'email', 'password', 'number', 'date', 'time']
+    let fields = Array.from(document.querySelectorAll('input')).filter((input) =>
+      blocking.includes(input.type)
+    )
+    expect(fields.map((field) => field.name)).toEqual(['query'])
+  })
+
+  it('should reset the switch to its initial state when the form is reset', async () => {
+    let submits = jest.fn()
+
+    function Example() {
+      let [state, setState] = useState(false)
+      return (
+        <form
+          onSubmit={(event) => {
+            event.preventDefault()
+            submits([...new FormData(event.currentTarget).entries()])
+          }}
+        >
+          <Switch checked={state} onChange={setState} name="notifications" />
+          <button type="reset">Reset</button>
+          <button>Submit</button>
+        </form>
+      )
+    }
+
+    render(<Example />)
+
+    // Toggle
+    await click(getSwitch())
+    assertSwitch({ state: SwitchState.On })
+
+    // Reset the form
+    await click(getByText('Reset'))
+    assertSwitch({ state: SwitchState.Off })
+
+    // Submit the form
+    await click(getByText('Submit'))
+
+    // Verify that the initial state has been restored
+    expect(submits).lastCalledWith([])
+  })
+
   it('should be possible to submit a form with an boolean value', async () => {
     let submits = jest.fn()
 
@@ -23,6 +23,7 @@ import { Description, useDescriptions } from '../description/description'
 import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
 import { useSyncRefs } from '../../hooks/use-sync-refs'
 import { Hidden, Features as HiddenFeatures } from '../../internal/hidden'
+import { FormControl, useInvalid } from '../../internal/form-control'
 import { attemptSubmit } from '../../utils/form'
 import { useEvent } from '../../hooks/use-event'
 
@@ -83,12 +84,14 @@ function Group<TTag extends ElementType = typeof DEFAULT_GROUP_TAG>(props: Props
 let DEFAULT_SWITCH_TAG = 'button' as const
 interface SwitchRenderPropArg {
   checked: boolean
+  invalid: boolean
 }
 type SwitchPropsWeControl =
   | 'id'
   | 'role'
   | 'tabIndex'
   | 'aria-checked'
+  | 'aria-invalid'
   | 'aria-labelledby'
   | 'aria-describedby'
   | 'onClick'
@@ -101,16 +104,25 @@ let SwitchRoot = forwardRefWithAs(function Switch<
   props: Props<
     TTag,
     SwitchRenderPropArg,
-    SwitchPropsWeControl | 'checked' | 'onChange' | 'name' | 'value'
+    | SwitchPropsWeControl
+    | 'checked'
+    | 'onChange'
+    | 'name'
+    | 'value'
+    | 'required'
+    | 'validationMessage'
   > & {
     checked: boolean
     onChange(checked: boolean): void
     name?: string
     value?: string
+    required?: boolean
+    validationMessage?: string
   },
   ref: Ref<HTMLElement>
 ) {
-  let { checked, onChange, name, value, ...theirProps } = props
+  let { checked, onChange, name, value, required = false, validationMessage, ...theirProps } = props
+  let initialChecked = useRef(checked)
   let id = `headlessui-switch-${useId()}`
   let groupContext = useContext(GroupContext)
   let internalSwitchRef = useRef<HTMLButtonElement | null>(null)
@@ -139,7 +151,17 @@ let SwitchRoot = forwardRefWithAs(function Switch<
   // This is needed so that we can "cancel" the click event when we use the `Enter` key on a button.
   let handleKeyPress = useEvent((event: ReactKeyboardEvent<HTMLElement>) => event.preventDefault())
 
-  let slot = useMemo<SwitchRenderPropArg>(() => ({ checked }), [checked])
+  let [invalid, markInvalid] = useInvalid({ filled: checked, required, validationMessage })
+  let handleInvalid = useEvent((shouldFocus: boolean) => {
+    markInvalid()
+    if (shouldFocus) internalSwitchRef.current?.focus()
+  })
+  let handleReset = useEvent(() => {
+    if (checked === initialChecked.current) return
+    onChange(initialChecked.current)
+  })
+
+  let slot = useMemo<SwitchRenderPropArg>(() => ({ checked, invalid }), [checked, invalid])
   let ourProps = {
     id,
     ref: switchRef,
@@ -147,6 +169,7 @@ let SwitchRoot = forwardRefWithAs(function Switch<
     type: useResolveButtonType(props, internalSwitchRef),
     tabIndex: 0,
     'aria-checked': checked,
+    'aria-invalid': invalid ? true : undefined,
     'aria-labelledby': groupContext?.labelledby,
     'aria-describedby': groupContext?.describedby,
     onClick: handleClick,
@@ -170,6 +193,15 @@ let SwitchRoot = forwardRefWithAs(function Switch<
           })}
         />
       )}
+      {(name != null || required) && (
+        <FormControl
+          filled={checked}
+          required={required}
+          validationMessage={validationMessage}
+          onInvalid={handleInvalid}
+          onReset={handleReset}
+        />
+      )}
       {render({ ourProps, theirProps, slot, defaultTag: DEFAULT_SWITCH_TAG, name: 'Switch' })}
     </>
   )
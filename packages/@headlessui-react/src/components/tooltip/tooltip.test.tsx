@@ -0,0 +1,447 @@
+import React, { createElement } from 'react'
+import { render, act, fireEvent } from '@testing-library/react'
+
+import { Tooltip } from './tooltip'
+import { suppressConsoleLogs } from '../../test-utils/suppress-console-logs'
+import {
+  PopoverState,
+  TooltipState,
+  assertPopoverPanel,
+  assertTooltip,
+  getByText,
+  getTooltip,
+} from '../../test-utils/accessibility-assertions'
+import { click, focus, mouseEnter, mouseLeave, press, Keys } from '../../test-utils/interactions'
+import { Transition } from '../transitions/transition'
+import { Dialog } from '../dialog/dialog'
+import { Popover } from '../popover/popover'
+
+jest.mock('../../hooks/use-id')
+
+// @ts-expect-error
+global.IntersectionObserver = class FakeIntersectionObserver {
+  observe() {}
+  disconnect() {}
+}
+
+// The tooltips share the time the last tooltip was hidden, so we control the clock to make sure
+// that tests don't influence each other.
+let now = 0
+beforeEach(() => {
+  now += 10_000
+  jest.spyOn(Date, 'now').mockImplementation(() => now)
+})
+
+afterEach(() => jest.restoreAllMocks())
+
+describe('Safe guards', () => {
+  it.each([
+    ['Tooltip.Trigger', Tooltip.Trigger],
+    ['Tooltip.Panel', Tooltip.Panel],
+  ])(
+    'should error when we are using a <%s /> without a parent <Tooltip />',
+    suppressConsoleLogs((name, Component) => {
+      expect(() => render(createElement(Component))).toThrowError(
+        `<${name} /> is missing a parent <Tooltip /> component.`
+      )
+    })
+  )
+
+  it(
+    'should be possible to render a Tooltip without crashing',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+})
+
+describe('Rendering', () => {
+  describe('Tooltip.Trigger', () => {
+    it('should set the `type` to "button" by default', async () => {
+      render(
+        <Tooltip>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      expect(getByText('Trigger')).toHaveAttribute('type', 'button')
+    })
+
+    it('should not set the type if the "as" prop is not a "button"', async () => {
+      render(
+        <Tooltip>
+          <Tooltip.Trigger as="div">Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      expect(getByText('Trigger')).not.toHaveAttribute('type')
+    })
+  })
+
+  it(
+    'should be possible to render a Tooltip using a render prop',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={0}>
+          {({ open }) => (
+            <>
+              <Tooltip.Trigger>{open ? 'Open' : 'Closed'}</Tooltip.Trigger>
+              <Tooltip.Panel>Contents</Tooltip.Panel>
+            </>
+          )}
+        </Tooltip>
+      )
+
+      await mouseEnter(getByText('Closed'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Open'))
+    })
+  )
+
+  it(
+    'should be possible to wrap the Tooltip.Panel with a Transition component',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={0}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Transition>
+            <Tooltip.Panel>Contents</Tooltip.Panel>
+          </Transition>
+        </Tooltip>
+      )
+
+      await mouseEnter(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await mouseLeave(getByText('Trigger'))
+      await act(() => new Promise((resolve) => setTimeout(resolve, 100)))
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should be possible to render the Tooltip.Panel in a Portal',
+    suppressConsoleLogs(async () => {
+      let { container } = render(
+        <Tooltip openDelay={0}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel portal>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      await mouseEnter(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+      expect(container).not.toContainElement(getTooltip())
+    })
+  )
+})
+
+describe('Interactions', () => {
+  it(
+    'should show the Tooltip on hover',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={0}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      await mouseEnter(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+      expect(getTooltip()).toHaveTextContent('Contents')
+
+      await mouseLeave(getByText('Trigger'))
+      await act(() => new Promise((resolve) => setTimeout(resolve, 100)))
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should show the Tooltip on focus',
+    suppressConsoleLogs(async () => {
+      render(
+        <>
+          <Tooltip openDelay={0}>
+            <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+            <Tooltip.Panel>Contents</Tooltip.Panel>
+          </Tooltip>
+          <button>After</button>
+        </>
+      )
+
+      await focus(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await focus(getByText('After'))
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should hide the Tooltip when pressing Escape',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={0}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      await focus(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await press(Keys.Escape)
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should only hide the Tooltip when pressing Escape inside a Dialog',
+    suppressConsoleLogs(async () => {
+      let handleClose = jest.fn()
+      render(
+        <Dialog open onClose={handleClose}>
+          <Dialog.Panel>
+            <Tooltip openDelay={0}>
+              <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+              <Tooltip.Panel>Contents</Tooltip.Panel>
+            </Tooltip>
+          </Dialog.Panel>
+        </Dialog>
+      )
+
+      await focus(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await press(Keys.Escape)
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+      expect(handleClose).not.toHaveBeenCalled()
+
+      // The next Escape closes the Dialog
+      await press(Keys.Escape)
+      expect(handleClose).toHaveBeenCalledTimes(1)
+    })
+  )
+
+  it(
+    'should close a Dialog on an outside click while a Tooltip inside of it is open',
+    suppressConsoleLogs(async () => {
+      let handleClose = jest.fn()
+      render(
+        <>
+          <button>Outside</button>
+          <Dialog open onClose={handleClose}>
+            <Dialog.Panel>
+              <Tooltip openDelay={0} closeDelay={500}>
+                <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+                <Tooltip.Panel>Contents</Tooltip.Panel>
+              </Tooltip>
+            </Dialog.Panel>
+          </Dialog>
+        </>
+      )
+
+      // The Tooltip is still open during its close delay
+      await mouseEnter(getByText('Trigger'))
+      await mouseLeave(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await click(getByText('Outside'))
+      expect(handleClose).toHaveBeenCalledTimes(1)
+    })
+  )
+
+  it(
+    'should close a Popover on an outside click while a Tooltip inside of it is open',
+    suppressConsoleLogs(async () => {
+      render(
+        <>
+          <Popover>
+            <Popover.Button>Toggle</Popover.Button>
+            <Popover.Panel>
+              <Tooltip openDelay={0}>
+                <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+                <Tooltip.Panel>Contents</Tooltip.Panel>
+              </Tooltip>
+            </Popover.Panel>
+          </Popover>
+          <div>Outside</div>
+        </>
+      )
+
+      await click(getByText('Toggle'))
+      await focus(getByText('Trigger'))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      await click(getByText('Outside'))
+      assertPopoverPanel({ state: PopoverState.InvisibleUnmounted })
+    })
+  )
+
+  it(
+    'should be possible to move the pointer from the Tooltip.Trigger to the Tooltip.Panel',
+    suppressConsoleLogs(async () => {
+      jest.useFakeTimers()
+      render(
+        <Tooltip openDelay={0}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      fireEvent.pointerOver(getByText('Trigger')!)
+      fireEvent.pointerOut(getByText('Trigger')!, { relatedTarget: getTooltip() })
+      act(() => void jest.advanceTimersByTime(50))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      fireEvent.pointerOver(getTooltip()!, { relatedTarget: getByText('Trigger')! })
+      act(() => void jest.advanceTimersByTime(200))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      jest.useRealTimers()
+    })
+  )
+
+  it(
+    'should keep the Tooltip open while hovering the Tooltip.Panel',
+    suppressConsoleLogs(async () => {
+      jest.useFakeTimers()
+      render(
+        <Tooltip openDelay={0} closeDelay={100}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      fireEvent.pointerOver(getByText('Trigger')!)
+      fireEvent.pointerOut(getByText('Trigger')!, { relatedTarget: getTooltip() })
+      fireEvent.pointerOver(getTooltip()!, { relatedTarget: getByText('Trigger')! })
+      act(() => void jest.advanceTimersByTime(200))
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      fireEvent.pointerOut(getTooltip()!)
+      act(() => void jest.advanceTimersByTime(200))
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+
+      jest.useRealTimers()
+    })
+  )
+})
+
+describe('Delays', () => {
+  beforeEach(() => jest.useFakeTimers())
+  afterEach(() => jest.useRealTimers())
+
+  function advance(ms: number) {
+    now += ms
+    act(() => void jest.advanceTimersByTime(ms))
+  }
+
+  it(
+    'should wait for the open and close delays',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={300} closeDelay={100}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      fireEvent.pointerOver(getByText('Trigger')!)
+      advance(200)
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+      advance(100)
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+
+      fireEvent.pointerOut(getByText('Trigger')!)
+      advance(50)
+      assertTooltip({ state: TooltipState.Visible }, getByText('Trigger'))
+      advance(50)
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should not open the Tooltip when the pointer leaves before the open delay',
+    suppressConsoleLogs(async () => {
+      render(
+        <Tooltip openDelay={300}>
+          <Tooltip.Trigger>Trigger</Tooltip.Trigger>
+          <Tooltip.Panel>Contents</Tooltip.Panel>
+        </Tooltip>
+      )
+
+      fireEvent.pointerOver(getByText('Trigger')!)
+      advance(200)
+      fireEvent.pointerOut(getByText('Trigger')!)
+      advance(500)
+      assertTooltip({ state: TooltipState.InvisibleUnmounted }, getByText('Trigger'))
+    })
+  )
+
+  it(
+    'should immediately show the next Tooltip while the user is exploring tooltips',
+    suppressConsoleLogs(async () => {
+      render(
+        <>
+          <Tooltip openDelay={300}>
+            <Tooltip.Trigger>Trigger A</Tooltip.Trigger>
+            <Tooltip.Panel>Contents A</Tooltip.Panel>
+          </Tooltip>
+          <Tooltip openDelay={300}>
+            <Tooltip.Trigger>Trigger B</Tooltip.Trigger>
+            <Tooltip.Panel>Contents B</Tooltip.Panel>
+          </Tooltip>
+        </>
+      )
+
+      fireEvent.pointerOver(getByText('Trigger A')!)
+      advance(300)
+      assertTooltip(
+        { state: TooltipState.Visible },
+        getByText('Trigger A'),
+        getByText('Contents A')
+      )
+
+      // Moving to the next trigger shows its tooltip without the delay
+      fireEvent.pointerOut(getByText('Trigger A')!, { relatedTarget: getByText('Trigger B')! })
+      fireEvent.pointerOver(getByText('Trigger B')!, { relatedTarget: getByText('Trigger A')! })
+      assertTooltip(
+        { state: TooltipState.InvisibleUnmounted },
+        getByText('Trigger A'),
+        getByText('Contents A')
+      )
+      assertTooltip(
+        { state: TooltipState.Visible },
+        getByText('Trigger B'),
+        getByText('Contents B')
+      )
+
+      // Once the warm-up window passed, the delay applies again
+      fireEvent.pointerOut(getByText('Trigger B')!)
+      advance(100)
+      advance(1000)
+      fireEvent.pointerOver(getByText('Trigger A')!)
+      assertTooltip(
+        { state: TooltipState.InvisibleUnmounted },
+        getByText('Trigger A'),
+        getByText('Contents A')
+      )
+      advance(300)
+      assertTooltip(
+        { state: TooltipState.Visible },
+        getByText('Trigger A'),
+        getByText('Contents A')
+      )
+    })
+  )
+})
@@ -0,0 +1,299 @@
+// WAI-ARIA: https://www.w3.org/WAI/ARIA/apg/patterns/tooltip/
+import React, {
+  Fragment,
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+
+  // Types
+  ElementType,
+  MutableRefObject,
+  Ref,
+} from 'react'
+
+import { Props } from '../../types'
+import { match } from '../../utils/match'
+import { forwardRefWithAs, render, Features, PropsForFeatures } from '../../utils/render'
+import { useSyncRefs } from '../../hooks/use-sync-refs'
+import { useId } from '../../hooks/use-id'
+import { useEvent } from '../../hooks/use-event'
+import { useDisposables } from '../../hooks/use-disposables'
+import { useAnchor } from '../../hooks/use-anchor'
+import { useEventListener } from '../../hooks/use-event-listener'
+import { useLayer } from '../../hooks/use-layer'
+import { useOwnerDocument } from '../../hooks/use-owner'
+import { useResolveButtonType } from '../../hooks/use-resolve-button-type'
+import { AnchorProps } from '../../utils/anchor'
+import { Keys } from '../keyboard'
+import { OpenClosedProvider, State, useOpenClosed } from '../../internal/open-closed'
+import { Portal } from '../portal/portal'
+
+enum TooltipStates {
+  Open,
+  Closed,
+}
+
+// Once a tooltip is visible, or was just hidden, the user is "exploring" the tooltips on the page.
+// In that case the next tooltip is shown right away instead of waiting for its open delay.
+let WARMUP_DURATION = 300
+
+let warmup = {
+  visible: new Set<() => void>(),
+  hiddenAt: -Infinity,
+}
+
+function isWarm() {
+  return warmup.visible.size > 0 || Date.now() - warmup.hiddenAt < WARMUP_DURATION
+}
+
+// Moving the pointer from the trigger to the tooltip takes a moment, so the tooltip stays open for
+// at least this long after the pointer leaves, even without a `closeDelay`.
+let POINTER_GRACE_PERIOD = 100
+
+interface StateDefinition {
+  tooltipState: TooltipStates
+
+  triggerRef: MutableRefObject<HTMLElement | null>
+  panelRef: MutableRefObject<HTMLElement | null>
+
+  panelId: string
+
+  show(immediate?: boolean): void
+  hide(immediate?: boolean): void
+}
+
+let TooltipContext = createContext<StateDefinition | null>(null)
+TooltipContext.displayName = 'TooltipContext'
+
+function useTooltipContext(component: string) {
+  let context = useContext(TooltipContext)
+  if (context === null) {
+    let err = new Error(`<${component} /> is missing a parent <Tooltip /> component.`)
+    if (Error.captureStackTrace) Error.captureStackTrace(err, useTooltipContext)
+    throw err
+  }
+  return context
+}
+
+// ---
+
+let DEFAULT_TOOLTIP_TAG = Fragment
+interface TooltipRenderPropArg {
+  open: boolean
+}
+
+let TooltipRoot = forwardRefWithAs(function Tooltip<
+  TTag extends ElementType = typeof DEFAULT_TOOLTIP_TAG
+>(
+  props: Props<TTag, TooltipRenderPropArg, 'openDelay' | 'closeDelay'> & {
+    openDelay?: number
+    closeDelay?: number
+  },
+  ref: Ref<TTag>
+) {
+  let { openDelay = 500, closeDelay = 0, ...theirProps } = props
+  let tooltipRef = useSyncRefs(ref)
+
+  let [tooltipState, setTooltipState] = useState(TooltipStates.Closed)
+  let triggerRef = useRef<HTMLElement | null>(null)
+  let panelRef = useRef<HTMLElement | null>(null)
+  let panelId = `headlessui-tooltip-panel-${useId()}`
+
+  let d = useDisposables()
+  let cancelPending = useRef<(() => void) | null>(null)
+
+  let schedule = useEvent((nextState: TooltipStates, delay: number) => {
+    cancelPending.current?.()
+    cancelPending.current = null
+
+    if (delay <= 0) return setTooltipState(nextState)
+    cancelPending.current = d.setTimeout(() => setTooltipState(nextState), delay)
+  })
+
+  let show = useEvent((immediate = false) => {
+    schedule(TooltipStates.Open, immediate || isWarm() ? 0 : openDelay)
+  })
+
+  let hide = useEvent((immediate = false) => {
+    schedule(TooltipStates.Closed, immediate ? 0 : Math.max(closeDelay, POINTER_GRACE_PERIOD))
+  })
+
+  // Only a single tooltip is visible at a time.
+  let hideImmediately = useEvent(() => hide(true))
+  useEffect(() => {
+    if (tooltipState !== TooltipStates.Open) return
+
+    for (let hideOther of warmup.visible) hideOther()
+    warmup.visible.add(hideImmediately)
+
+    return () => {
+      warmup.visible.delete(hideImmediately)
+      warmup.hiddenAt = Date.now()
+    }
+  }, [tooltipState, hideImmediately])
+
+  // Tooltips don't receive focus, so we have to listen for the `Escape` key globally. An outside
+  // click doesn't dismiss a Tooltip, so it doesn't keep the layers below it open either.
+  let ownerDocument = useOwnerDocument(triggerRef)
+  let [, isTopLayer] = useLayer(tooltipState === TooltipStates.Open, { escapeOnly: true })
+  useEventListener(ownerDocument?.defaultView, 'keydown', (event) => {
+    if (event.defaultPrevented) return
+    if (event.key !== Keys.Escape) return
+    if (tooltipState !== TooltipStates.Open) return
+    if (!isTopLayer(event)) return
+    event.preventDefault()
+    hideImmediately()
+  })
+
+  let context = useMemo<StateDefinition>(
+    () => ({ tooltipState, triggerRef, panelRef, panelId, show, hide }),
+    [tooltipState, panelId, show, hide]
+  )
+
+  let slot = useMemo<TooltipRenderPropArg>(
+    () => ({ open: tooltipState === TooltipStates.Open }),
+    [tooltipState]
+  )
+
+  let ourProps = { ref: tooltipRef }
+
+  return (
+    <TooltipContext.Provider value={context}>
+      <OpenClosedProvider
+        value={match(tooltipState, {
+          [TooltipStates.Open]: State.Open,
+          [TooltipStates.Closed]: State.Closed,
+        })}
+      >
+        {render({ ourProps, theirProps, slot, defaultTag: DEFAULT_TOOLTIP_TAG, name: 'Tooltip' })}
+      </OpenClosedProvider>
+    </TooltipContext.Provider>
+  )
+})
+
+// ---
+
+let DEFAULT_TRIGGER_TAG = 'button' as const
+interface TriggerRenderPropArg {
+  open: boolean
+}
+type TriggerPropsWeControl =
+  | 'type'
+  | 'aria-describedby'
+  | 'onPointerEnter'
+  | 'onPointerLeave'
+  | 'onFocus'
+  | 'onBlur'
+
+let Trigger = forwardRefWithAs(function Trigger<
+  TTag extends ElementType = typeof DEFAULT_TRIGGER_TAG
+>(props: Props<TTag, TriggerRenderPropArg, TriggerPropsWeControl>, ref: Ref<HTMLElement>) {
+  let state = useTooltipContext('Tooltip.Trigger')
+  let triggerRef = useSyncRefs(state.triggerRef, ref)
+
+  let handlePointerEnter = useEvent(() => state.show())
+  let handlePointerLeave = useEvent(() => state.hide())
+  let handleFocus = useEvent(() => state.show())
+  let handleBlur = useEvent(() => state.hide(true))
+
+  let slot = useMemo<TriggerRenderPropArg>(
+    () => ({ open: state.tooltipState === TooltipStates.Open }),
+    [state.tooltipState]
+  )
+
+  let theirProps = props
+  let ourProps = {
+    ref: triggerRef,
+    type: useResolveButtonType(props, state.triggerRef),
+    'aria-describedby': state.tooltipState === TooltipStates.Open ? state.panelId : undefined,
+    onPointerEnter: handlePointerEnter,
+    onPointerLeave: handlePointerLeave,
+    onFocus: handleFocus,
+    onBlur: handleBlur,
+  }
+
+  return render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_TRIGGER_TAG,
+    name: 'Tooltip.Trigger',
+  })
+})
+
+// ---
+
+let DEFAULT_PANEL_TAG = 'div' as const
+interface PanelRenderPropArg {
+  open: boolean
+}
+type PanelPropsWeControl = 'id' | 'role' | 'onPointerEnter' | 'onPointerLeave'
+
+let PanelRenderFeatures = Features.RenderStrategy | Features.Static
+
+let Panel = forwardRefWithAs(function Panel<TTag extends ElementType = typeof DEFAULT_PANEL_TAG>(
+  props: Props<TTag, PanelRenderPropArg, PanelPropsWeControl | 'anchor' | 'portal'> &
+    PropsForFeatures<typeof PanelRenderFeatures> & {
+      anchor?: AnchorProps
+      portal?: boolean
+    },
+  ref: Ref<HTMLElement>
+) {
+  let { anchor: anchorProp, portal = false, ...theirProps } = props
+  let state = useTooltipContext('Tooltip.Panel')
+  let panelRef = useSyncRefs(state.panelRef, ref)
+
+  let usesOpenClosedState = useOpenClosed()
+  let visible = (() => {
+    if (usesOpenClosedState !== null) {
+      return usesOpenClosedState === State.Open
+    }
+
+    return state.tooltipState === TooltipStates.Open
+  })()
+
+  let anchor = useAnchor({
+    anchor: anchorProp,
+    enabled: visible,
+    referenceRef: state.triggerRef,
+    floatingRef: state.panelRef,
+  })
+
+  // Moving the pointer from the trigger to the tooltip should keep it open.
+  let handlePointerEnter = useEvent(() => state.show(true))
+  let handlePointerLeave = useEvent(() => state.hide())
+
+  let slot = useMemo<PanelRenderPropArg>(
+    () => ({ open: state.tooltipState === TooltipStates.Open }),
+    [state.tooltipState]
+  )
+
+  let ourProps = {
+    ref: panelRef,
+    id: state.panelId,
+    role: 'tooltip',
+    'data-anchor': anchor.placement,
+    style: anchor.style ? { ...anchor.style, ...theirProps.style } : theirProps.style,
+    onPointerEnter: handlePointerEnter,
+    onPointerLeave: handlePointerLeave,
+  }
+
+  let panel = render({
+    ourProps,
+    theirProps,
+    slot,
+    defaultTag: DEFAULT_PANEL_TAG,
+    features: PanelRenderFeatures,
+    visible,
+    name: 'Tooltip.Panel',
+  })
+
+  return portal && panel !== null ? <Portal>{panel}</Portal> : panel
+})
+
+// ---
+
+export let Tooltip = Object.assign(TooltipRoot, { Trigger, Panel })
@@ -0,0 +1,108 @@
+import { useState, CSSProperties, MutableRefObject } from 'react'
+import { useEvent } from './use-event'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+import { disposables } from '../utils/disposables'
+import { getOwnerDocument } from '../utils/owner'
+import {
+  computeAnchorPosition,
+  resolveAnchor,
+  AnchorPlacement,
+  AnchorPosition,
+  AnchorProps,
+} from '../utils/anchor'
+
+export function useAnchor({
+  anchor,
+  enabled,
+  referenceRef,
+  floatingRef,
+}: {
+  anchor: AnchorProps | null | undefined
+  enabled: boolean
+  referenceRef: MutableRefObject<HTMLElement | null>
+  floatingRef: MutableRefObject<HTMLElement | null>
+}): { style?: CSSProperties; placement?: AnchorPlacement } {
+  let [position, setPosition] = useState<AnchorPosition | null>(null)
+  let options = resolveAnchor(anchor)
+
+  let update = useEvent(() => {
+    let reference = referenceRef.current
+    let floating = floatingRef.current
+    if (options === null || !reference || !floating) return
+
+    let ownerWindow = getOwnerDocument(reference)?.defaultView
+    if (!ownerWindow) return
+
+    let { width, height } = floating.getBoundingClientRect()
+    let next = computeAnchorPosition(
+      reference.getBoundingClientRect(),
+      // The panel could already be limited by a `max-height` of a previous update, so we look at
+      // the size of its contents instead.
+      { width, height: Math.max(height, floating.scrollHeight) },
+      { width: ownerWindow.innerWidth, height: ownerWindow.innerHeight },
+      options
+    )
+
+    setPosition((current) =>
+      current !== null &&
+      current.x === next.x &&
+      current.y === next.y &&
+      current.placement === next.placement &&
+      current.maxHeight === next.maxHeight &&
+      current.overflow === next.overflow &&
+      current.width === next.width
+        ? current
+        : next
+    )
+  })
+
+  let active = enabled && options !== null
+  useIsoMorphicEffect(() => {
+    if (!active) return setPosition(null)
+
+    let d = disposables()
+
+    update()
+
+    let ownerWindow = getOwnerDocument(referenceRef)?.defaultView
+    if (ownerWindow) {
+      // Scrolling any of the ancestors of the reference moves it, so we listen in the capture phase.
+      d.addEventListener(ownerWindow, 'scroll', update, { capture: true, passive: true })
+      d.addEventListener(ownerWindow, 'resize', update)
+    }
+
+    if (typeof ResizeObserver !== 'undefined') {
+      let observer = new ResizeObserver(update)
+      if (referenceRef.current) observer.observe(referenceRef.current)
+      if (floatingRef.current) observer.observe(floatingRef.current)
+      d.add(() => observer.disconnect())
+    }
+
+    return d.dispose
+  }, [
+    active,
+    update,
+    referenceRef,
+    floatingRef,
+    options?.side,
+    options?.align,
+    options?.gap,
+    options?.offset,
+    options?.padding,
+    options?.matchWidth,
+  ])
+
+  if (!active) return {}
+
+  return {
+    style: {
+      position: 'fixed',
+      left: position?.x ?? 0,
+      top: position?.y ?? 0,
+      maxHeight: position?.maxHeight,
+      width: position?.width ?? undefined,
+      overflowY: position?.overflow ? 'auto' : undefined,
+    },
+    placement: position?.placement,
+  }
+}
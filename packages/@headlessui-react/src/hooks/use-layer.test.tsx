@@ -0,0 +1,113 @@
+import React, { ReactNode, useState } from 'react'
+import { render } from '@testing-library/react'
+import { LayerProvider, useLayer } from './use-layer'
+import { click } from '../test-utils/interactions'
+import { getByText } from '../test-utils/accessibility-assertions'
+
+let isTopLayer = new Map<string, (event: Event) => boolean>()
+
+function Layer({
+  name,
+  open,
+  escapeOnly,
+  children,
+}: {
+  name: string
+  open: boolean
+  escapeOnly?: boolean
+  children?: ReactNode
+}) {
+  let [layer, shouldDismiss] = useLayer(open, { escapeOnly })
+  isTopLayer.set(name, shouldDismiss)
+
+  return <LayerProvider value={layer}>{children}</LayerProvider>
+}
+
+function dismissedLayers(event: Event = new KeyboardEvent('keydown', { key: 'Escape' })) {
+  return Array.from(isTopLayer).flatMap(([name, shouldDismiss]) =>
+    shouldDismiss(event) ? [name] : []
+  )
+}
+
+beforeEach(() => isTopLayer.clear())
+
+it('should put a child layer on top of its parent when they open in the same commit', async () => {
+  function Example() {
+    let [open, setOpen] = useState(false)
+    return (
+      <>
+        <button onClick={() => setOpen(true)}>Open</button>
+        <Layer name="parent" open={open}>
+          <Layer name="child" open={open} />
+        </Layer>
+      </>
+    )
+  }
+  render(<Example />)
+
+  expect(dismissedLayers()).toEqual([])
+
+  await click(getByText('Open'))
+  expect(dismissedLayers()).toEqual(['child'])
+})
+
+it('should put the last opened layer on top of unrelated layers', async () => {
+  function Example() {
+    let [open, setOpen] = useState<string[]>([])
+    return (
+      <>
+        <button onClick={() => setOpen((open) => [...open, 'a'])}>Open A</button>
+        <button onClick={() => setOpen((open) => [...open, 'b'])}>Open B</button>
+        <button onClick={() => setOpen((open) => open.filter((name) => name !== 'b'))}>
+          Close B
+        </button>
+        <Layer name="a" open={open.includes('a')} />
+        <Layer name="b" open={open.includes('b')} />
+      </>
+    )
+  }
+  render(<Example />)
+
+  await click(getByText('Open B'))
+  await click(getByText('Open A'))
+  expect(dismissedLayers()).toEqual(['a'])
+
+  await click(getByText('Close B'))
+  expect(dismissedLayers()).toEqual(['a'])
+})
+
+it('should only dismiss a single layer per event', async () => {
+  render(
+    <Layer name="parent" open>
+      <Layer name="child" open />
+    </Layer>
+  )
+
+  let event = new KeyboardEvent('keydown', { key: 'Escape' })
+  expect(isTopLayer.get('child')!(event)).toBe(true)
+  expect(isTopLayer.get('child')!(event)).toBe(false)
+  expect(isTopLayer.get('parent')!(event)).toBe(false)
+})
+
+it('should not let an Escape only layer cover the other layers for outside clicks', () => {
+  render(
+    <Layer name="dialog" open>
+      <Layer name="tooltip" open escapeOnly />
+    </Layer>
+  )
+
+  expect(dismissedLayers(new KeyboardEvent('keydown', { key: 'Escape' }))).toEqual(['tooltip'])
+  expect(dismissedLayers(new MouseEvent('click'))).toEqual(['dialog'])
+})
+
+it('should still let an outside click dismiss a layer opened after an Escape only layer', () => {
+  render(
+    <>
+      <Layer name="tooltip" open escapeOnly />
+      <Layer name="popover" open />
+    </>
+  )
+
+  expect(dismissedLayers(new MouseEvent('click'))).toEqual(['popover'])
+  expect(dismissedLayers(new KeyboardEvent('keydown', { key: 'Escape' }))).toEqual(['popover'])
+})
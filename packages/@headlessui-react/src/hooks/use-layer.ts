@@ -0,0 +1,80 @@
+import { createContext, useContext, useState } from 'react'
+import { useEvent } from './use-event'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+
+export interface Layer {
+  parent: Layer | null
+
+  // Layers that are only dismissed with `Escape` (e.g. a `Tooltip`) don't cover the other layers
+  // for outside clicks.
+  escapeOnly: boolean
+}
+
+let LayerContext = createContext<Layer | null>(null)
+LayerContext.displayName = 'LayerContext'
+
+export let LayerProvider = LayerContext.Provider
+
+// All open floating components (dialogs, popovers, menus, ...) form a single stack of layers, even
+// when they are rendered in different portals. A layer is on top of the layers it is rendered in,
+// and of the unrelated layers that were opened before it.
+let layers: Layer[] = []
+
+// Events that already dismissed a layer, so that the layers below it ignore them.
+let handledEvents = new WeakSet<Event>()
+
+function isAncestor(ancestor: Layer, layer: Layer) {
+  for (let current = layer.parent; current; current = current.parent) {
+    if (current === ancestor) return true
+  }
+  return false
+}
+
+function isKeyboardEvent(event: Event) {
+  return event.type === 'keydown' || event.type === 'keyup'
+}
+
+function isTopLayer(layer: Layer, event: Event) {
+  let idx = layers.indexOf(layer)
+  if (idx === -1) return false
+
+  // A parent and its child can open in the same commit, in which case the child registers first.
+  // That's why the nesting decides the order first, and only then the order they were opened in.
+  return layers.every((other, otherIdx) => {
+    if (other === layer) return true
+    if (other.escapeOnly && !isKeyboardEvent(event)) return true
+    if (isAncestor(layer, other)) return false
+    return otherIdx < idx || isAncestor(other, layer)
+  })
+}
+
+export function useLayer(enabled: boolean, { escapeOnly = false }: { escapeOnly?: boolean } = {}) {
+  let parent = useContext(LayerContext)
+  let [layer] = useState<Layer>(() => ({ parent, escapeOnly }))
+
+  useIsoMorphicEffect(() => {
+    if (!enabled) return
+
+    layer.parent = parent
+    layer.escapeOnly = escapeOnly
+    layers.push(layer)
+    return () => {
+      let idx = layers.indexOf(layer)
+      if (idx !== -1) layers.splice(idx, 1)
+    }
+  }, [enabled, layer, parent, escapeOnly])
+
+  /**
+   * Whether the event (e.g. an `Escape` key press or an outside click) should dismiss this layer.
+   * This is only the case for the topmost layer, and only once per event.
+   */
+  let shouldDismiss = useEvent((event: Event) => {
+    if (handledEvents.has(event)) return false
+    if (!isTopLayer(layer, event)) return false
+
+    handledEvents.add(event)
+    return true
+  })
+
+  return [layer, shouldDismiss] as const
+}
@@ -0,0 +1,81 @@
+import { useRef, Dispatch } from 'react'
+import { useEvent } from './use-event'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+import { useLatestValue } from './use-latest-value'
+import { microTask } from '../utils/micro-task'
+
+export type OpenChangeReason = 'pointer' | 'keyboard' | 'outside-click' | 'selection' | 'escape'
+
+export function useOpenChange<TAction>({
+  open,
+  controlledOpen,
+  onOpenChange,
+  dispatch,
+  resolveOpenChange,
+  createAction,
+}: {
+  /** Whether the component is currently open, according to its own state. */
+  open: boolean
+  controlledOpen?: boolean
+  onOpenChange?(open: boolean, reason: OpenChangeReason | null): void
+  dispatch: Dispatch<TAction>
+  /** Returns the requested open state for actions that open or close the component. */
+  resolveOpenChange(action: TAction): { open: boolean; reason: OpenChangeReason | null } | null
+  createAction(open: boolean, reason: OpenChangeReason | null): TAction
+}) {
+  let isControlled = controlledOpen !== undefined
+
+  // Multiple actions can be dispatched in the same event, we only want to notify about the first
+  // one that actually changes the open state.
+  let latestOpen = useLatestValue(open)
+  let requestedOpen = useRef(open)
+  useIsoMorphicEffect(() => {
+    requestedOpen.current = open
+  }, [open])
+
+  // In controlled mode we hold on to the action that requested to open, so that its data (like
+  // the reason) is applied once the `open` prop catches up.
+  let pendingAction = useRef<TAction | null>(null)
+
+  let wrappedDispatch = useEvent((action: TAction) => {
+    let change = resolveOpenChange(action)
+    if (change === null) return dispatch(action)
+
+    if (change.open !== requestedOpen.current) {
+      requestedOpen.current = change.open
+      onOpenChange?.(change.open, change.reason)
+    }
+
+    if (isControlled) {
+      pendingAction.current = action
+
+      // Actions that don't change the open state (e.g. re-positioning an open menu) still apply.
+      if (change.open === open) dispatch(action)
+    } else {
+      dispatch(action)
+    }
+
+    // Scheduled after `onOpenChange`, so that state updates made in there are rendered first. Once
+    // we get here we are in sync with the rendered state again, and requests that were not acted on
+    // are dropped.
+    microTask(() => {
+      requestedOpen.current = latestOpen.current
+      pendingAction.current = null
+    })
+  })
+
+  useIsoMorphicEffect(() => {
+    if (controlledOpen === undefined) return
+
+    let action = pendingAction.current
+    pendingAction.current = null
+
+    dispatch(
+      action !== null && resolveOpenChange(action)?.open === controlledOpen
+        ? action
+        : createAction(controlledOpen, null)
+    )
+  }, [controlledOpen])
+
+  return wrappedDispatch
+}
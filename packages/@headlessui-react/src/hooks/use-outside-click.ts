@@ -1,5 +1,6 @@
 import { MutableRefObject, useEffect, useRef } from 'react'
 import { FocusableMode, isFocusableElement } from '../utils/focus-management'
+import { useLayer } from './use-layer'
 import { useWindowEvent } from './use-window-event'
 
 type Container = MutableRefObject<HTMLElement | null> | HTMLElement | null
@@ -11,6 +12,8 @@ export function useOutsideClick(
   cb: (event: MouseEvent | PointerEvent | FocusEvent, target: HTMLElement) => void,
   enabled: boolean = true
 ) {
+  let [layer, isTopLayer] = useLayer(enabled)
+
   // TODO: remove this once the React bug has been fixed: https://github.com/facebook/react/issues/24657
   let enabledRef = useRef(false)
   useEffect(
@@ -71,6 +74,10 @@ export function useOutsideClick(
       }
     }
 
+    // Only the topmost layer is dismissed, e.g.: when a `Menu` is open inside a `Dialog`, an outside
+    // click closes the `Menu` but not the `Dialog` (yet).
+    if (!isTopLayer(event)) return
+
     // This allows us to check whether the event was defaultPrevented when you are nesting this
     // inside a `<Dialog />` for example.
     if (
@@ -118,4 +125,6 @@ export function useOutsideClick(
       ),
     true
   )
+
+  return [layer, isTopLayer] as const
 }
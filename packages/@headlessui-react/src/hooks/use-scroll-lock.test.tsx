@@ -0,0 +1,97 @@
+import React, { useRef } from 'react'
+import { render } from '@testing-library/react'
+import { useScrollLock } from './use-scroll-lock'
+
+beforeEach(() => {
+  jest.restoreAllMocks()
+  document.documentElement.removeAttribute('style')
+})
+
+function Lock({ enabled = true }: { enabled?: boolean }) {
+  useScrollLock(document, enabled)
+  return null
+}
+
+it('should lock the scroll of the document and restore it afterwards', () => {
+  document.documentElement.style.overflow = 'scroll'
+
+  let { rerender } = render(<Lock />)
+  expect(document.documentElement.style.overflow).toBe('hidden')
+
+  rerender(<Lock enabled={false} />)
+  expect(document.documentElement.style.overflow).toBe('scroll')
+})
+
+it('should keep the scroll locked until the last lock is released, in any order', () => {
+  function Example({ a, b }: { a: boolean; b: boolean }) {
+    return (
+      <>
+        <Lock enabled={a} />
+        <Lock enabled={b} />
+      </>
+    )
+  }
+
+  let { rerender } = render(<Example a={true} b={false} />)
+  expect(document.documentElement.style.overflow).toBe('hidden')
+
+  rerender(<Example a={true} b={true} />)
+  expect(document.documentElement.style.overflow).toBe('hidden')
+
+  // The first lock is released before the second one
+  rerender(<Example a={false} b={true} />)
+  expect(document.documentElement.style.overflow).toBe('hidden')
+
+  rerender(<Example a={false} b={false} />)
+  expect(document.documentElement.style.overflow).toBe('')
+})
+
+it('should restore the scroll position when it changed while locked', () => {
+  let scrollTo = jest.spyOn(window, 'scrollTo').mockImplementation(() => {})
+  function setScrollY(y: number) {
+    Object.defineProperty(window, 'scrollY', { value: y, configurable: true, writable: true })
+  }
+
+  setScrollY(200)
+  let { rerender } = render(<Lock />)
+
+  setScrollY(0)
+  rerender(<Lock enabled={false} />)
+  expect(scrollTo).toHaveBeenCalledWith(0, 200)
+})
+
+describe('iOS', () => {
+  beforeEach(() => {
+    jest.spyOn(window.navigator, 'platform', 'get').mockReturnValue('iPhone')
+  })
+
+  function touchMove(element: Element) {
+    let event = new Event('touchmove', { bubbles: true, cancelable: true })
+    element.dispatchEvent(event)
+    return event
+  }
+
+  it('should prevent touch scrolling outside of the allowed containers', () => {
+    function Example({ enabled }: { enabled: boolean }) {
+      let ref = useRef<HTMLDivElement | null>(null)
+      useScrollLock(document, enabled, () => [ref.current])
+
+      return (
+        <>
+          <div>Outside</div>
+          <div ref={ref}>
+            <div>Inside</div>
+          </div>
+        </>
+      )
+    }
+
+    let { getByText, rerender } = render(<Example enabled={true} />)
+
+    expect(touchMove(getByText('Outside')).defaultPrevented).toBe(true)
+    expect(touchMove(getByText('Inside')).defaultPrevented).toBe(false)
+
+    rerender(<Example enabled={false} />)
+    expect(touchMove(getByText('Outside')).defaultPrevented).toBe(false)
+  })
+})
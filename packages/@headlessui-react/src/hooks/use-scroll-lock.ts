@@ -0,0 +1,109 @@
+import { disposables } from '../utils/disposables'
+import { useEvent } from './use-event'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+
+type AllowedContainers = () => (HTMLElement | null)[]
+
+// All components that currently lock the scroll of a document share a single lock, so that
+// overlapping locks are released in the correct order, and the original styles are restored once
+// the last one is gone.
+let documents = new Map<Document, { allowed: Set<AllowedContainers>; release(): void }>()
+
+function isIOS(ownerWindow: Window) {
+  // The `platform` is deprecated, but there is no alternative yet. iPads pretend to be a Mac.
+  let { platform, maxTouchPoints } = ownerWindow.navigator
+  return /iPhone|iPad|iPod/.test(platform) || (/Mac/.test(platform) && maxTouchPoints > 0)
+}
+
+function lock(ownerDocument: Document, allowed: Set<AllowedContainers>) {
+  let d = disposables()
+  let documentElement = ownerDocument.documentElement
+  let ownerWindow = ownerDocument.defaultView ?? window
+
+  let scrollPosition = { x: ownerWindow.scrollX, y: ownerWindow.scrollY }
+  let { overflow, paddingRight } = documentElement.style
+
+  let scrollbarWidthBefore = ownerWindow.innerWidth - documentElement.clientWidth
+  documentElement.style.overflow = 'hidden'
+
+  // Reserve the space of the scrollbar, so that the page doesn't shift.
+  if (scrollbarWidthBefore > 0) {
+    let scrollbarWidthAfter = documentElement.clientWidth - documentElement.offsetWidth
+    let scrollbarWidth = scrollbarWidthBefore - scrollbarWidthAfter
+    documentElement.style.paddingRight = `${scrollbarWidth}px`
+  }
+
+  d.add(() => {
+    documentElement.style.overflow = overflow
+    documentElement.style.paddingRight = paddingRight
+  })
+
+  // iOS Safari ignores the `overflow: hidden` when scrolling with touch, so we have to prevent
+  // those scrolls ourselves, except within the allowed containers.
+  if (isIOS(ownerWindow)) {
+    let handleTouchMove = (event: TouchEvent) => {
+      let target = event.target as Node | null
+      for (let resolveAllowedContainers of allowed) {
+        for (let container of resolveAllowedContainers()) {
+          if (container?.contains(target)) return
+        }
+      }
+
+      event.preventDefault()
+    }
+
+    ownerDocument.addEventListener('touchmove', handleTouchMove, { passive: false })
+    d.add(() => ownerDocument.removeEventListener('touchmove', handleTouchMove))
+  }
+
+  // Browsers can reset the scroll position while the document can't scroll.
+  d.add(() => {
+    if (ownerWindow.scrollX === scrollPosition.x && ownerWindow.scrollY === scrollPosition.y) {
+      return
+    }
+    ownerWindow.scrollTo(scrollPosition.x, scrollPosition.y)
+  })
+
+  return d.dispose
+}
+
+function lockScroll(
+  ownerDocument: Document,
+  resolveAllowedContainers: AllowedContainers = () => []
+) {
+  let entry = documents.get(ownerDocument)
+  if (!entry) {
+    let allowed = new Set<AllowedContainers>()
+    entry = { allowed, release: lock(ownerDocument, allowed) }
+    documents.set(ownerDocument, entry)
+  }
+
+  // Every lock gets its own function, so that the same containers can be locked multiple times.
+  let allowed = () => resolveAllowedContainers()
+  entry.allowed.add(allowed)
+
+  return () => {
+    let entry = documents.get(ownerDocument)
+    if (!entry) return
+    if (!entry.allowed.delete(allowed)) return
+    if (entry.allowed.size > 0) return
+
+    documents.delete(ownerDocument)
+    entry.release()
+  }
+}
+
+export function useScrollLock(
+  ownerDocument: Document | null,
+  enabled: boolean,
+  resolveAllowedContainers: AllowedContainers = () => []
+) {
+  let resolveContainers = useEvent(resolveAllowedContainers)
+
+  useIsoMorphicEffect(() => {
+    if (!enabled) return
+    if (!ownerDocument) return
+
+    return lockScroll(ownerDocument, resolveContainers)
+  }, [enabled, ownerDocument, resolveContainers])
+}
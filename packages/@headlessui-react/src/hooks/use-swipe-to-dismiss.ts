@@ -0,0 +1,226 @@
+import { MutableRefObject, PointerEvent as ReactPointerEvent, useRef } from 'react'
+import { disposables } from '../utils/disposables'
+import { getOwnerDocument } from '../utils/owner'
+import { useDisposables } from './use-disposables'
+import { useEvent } from './use-event'
+import { useIsoMorphicEffect } from './use-iso-morphic-effect'
+
+export type Edge = 'top' | 'right' | 'bottom' | 'left'
+
+// The distance the pointer has to move before it is a drag, so that clicks keep working.
+let DRAG_THRESHOLD = 10
+
+// The velocity (in px/ms) of a flick that moves the element to the next snap point, or dismisses it.
+let VELOCITY_THRESHOLD = 0.5
+
+// The element moves back when dismissing it got refused, instead of jumping back.
+let SNAP_BACK_DURATION = 200
+
+function isScrolled(target: HTMLElement | null, element: HTMLElement, axis: 'x' | 'y') {
+  for (let node = target; node; node = node.parentElement) {
+    if ((axis === 'y' ? node.scrollTop : node.scrollLeft) !== 0) return true
+    if (node === element) break
+  }
+  return false
+}
+
+function hasTransition(element: HTMLElement) {
+  let ownerWindow = element.ownerDocument.defaultView
+  if (!ownerWindow) return false
+
+  let { transitionDuration } = ownerWindow.getComputedStyle(element)
+  return transitionDuration.split(',').some((duration) => parseFloat(duration) > 0)
+}
+
+/**
+ * Drag an element that is anchored to an `edge` towards that edge to dismiss it. The element
+ * follows the pointer, and snaps to the closest of the `snapPoints` (the visible fraction of the
+ * element, e.g.: `[0.5, 1]`) when released. It starts at the first snap point.
+ *
+ * The `onDismiss` callback returns whether the element is actually dismissed, optionally
+ * asynchronously. Otherwise the element moves back.
+ */
+export function useSwipeToDismiss(
+  ref: MutableRefObject<HTMLElement | null>,
+  edge: Edge | null,
+  onDismiss: () => boolean | Promise<boolean>,
+  snapPoints: number[] = [1]
+) {
+  let d = useDisposables()
+
+  // The distance (in px) between the open position of the element and its current position.
+  let offset = useRef(0)
+
+  let axis: 'x' | 'y' = edge === 'top' || edge === 'bottom' ? 'y' : 'x'
+  let direction = edge === 'bottom' || edge === 'right' ? 1 : -1
+
+  let sizeOf = (element: HTMLElement) => (axis === 'y' ? element.offsetHeight : element.offsetWidth)
+
+  let setOffset = useEvent((element: HTMLElement, value: number) => {
+    offset.current = value
+    element.style.transform =
+      value === 0 ? '' : `translate${axis.toUpperCase()}(${direction * value}px)`
+  })
+
+  // The offsets of the snap points, from the most to the least visible one
+  let resolveSnapOffsets = (element: HTMLElement) => {
+    let size = sizeOf(element)
+    return snapPoints.map((snapPoint) => size * (1 - snapPoint)).sort((a, z) => a - z)
+  }
+
+  // Browsers decide whether a touch scrolls the page when it starts, so we have to opt out of that
+  // up front for the axis we drag along. Scrollable contents of the element still scroll.
+  useIsoMorphicEffect(() => {
+    if (edge === null) return
+    let element = ref.current
+    if (!element) return
+
+    let { touchAction } = element.style
+    element.style.touchAction = axis === 'y' ? 'pan-x pinch-zoom' : 'pan-y pinch-zoom'
+    return () => {
+      element!.style.touchAction = touchAction
+    }
+  }, [edge, ref, axis])
+
+  // The initial snap point would override the `transform` of an enter transition (e.g. when the
+  // element is wrapped in a `Transition`), so we only apply it once that transition ended.
+  let initialSnapPoint = snapPoints[0] ?? 1
+  useIsoMorphicEffect(() => {
+    if (edge === null) return
+    if (initialSnapPoint === 1) return
+    let element = ref.current
+    if (!element) return
+
+    let d = disposables()
+    let apply = () => {
+      d.dispose()
+      setOffset(element!, sizeOf(element!) * (1 - initialSnapPoint))
+    }
+
+    // The enter classes of a `Transition` are applied in the next frame
+    d.nextFrame(() => {
+      if (!hasTransition(element!)) return apply()
+      d.addEventListener(element!, 'transitionend', (event) => {
+        if (event.target !== element) return
+        apply()
+      })
+      d.addEventListener(element!, 'transitioncancel', (event) => {
+        if (event.target !== element) return
+        apply()
+      })
+    })
+    return d.dispose
+  }, [edge, ref, initialSnapPoint, setOffset])
+
+  let snapBack = useEvent((element: HTMLElement, value: number) => {
+    let { transition } = element.style
+    element.style.transition = `transform ${SNAP_BACK_DURATION}ms ease-out`
+    setOffset(element, value)
+    d.setTimeout(() => (element.style.transition = transition), SNAP_BACK_DURATION)
+  })
+
+  let release = useEvent((element: HTMLElement, velocity: number) => {
+    let size = sizeOf(element)
+    let snapOffsets = resolveSnapOffsets(element)
+    let current = offset.current
+
+    let target = (() => {
+      // A flick moves to the next snap point in the direction of the flick
+      if (velocity > VELOCITY_THRESHOLD) {
+        return snapOffsets.find((snapOffset) => snapOffset > current) ?? size
+      }
+      if (velocity < -VELOCITY_THRESHOLD) {
+        return [...snapOffsets].reverse().find((snapOffset) => snapOffset < current) ?? 0
+      }
+
+      return [...snapOffsets, size].reduce((closest, snapOffset) =>
+        Math.abs(snapOffset - current) < Math.abs(closest - current) ? snapOffset : closest
+      )
+    })()
+
+    if (target < size) return setOffset(element, target)
+
+    // The element stays at the dragged position while the dismissal is pending. If it gets
+    // refused, the element moves back to the least visible snap point.
+    let dismissed = (dismissed: boolean) => {
+      if (!dismissed) return snapBack(element, snapOffsets[snapOffsets.length - 1] ?? 0)
+
+      // When the element is wrapped in a `Transition`, it moves to its `leaveTo` classes in the
+      // next frame. Resetting the offset in that same frame continues the transition from the
+      // dragged position.
+      d.nextFrame(() => setOffset(element, 0))
+    }
+
+    let result = onDismiss()
+    if (result instanceof Promise) {
+      result.then(dismissed, () => dismissed(false))
+    } else {
+      dismissed(result)
+    }
+  })
+
+  return useEvent((event: ReactPointerEvent) => {
+    if (edge === null) return
+    if (event.button !== 0) return
+
+    let element = ref.current
+    if (!element) return
+
+    // Scrolled content scrolls back first, instead of dragging the element.
+    if (isScrolled(event.target as HTMLElement, element, axis)) return
+
+    let ownerDocument = getOwnerDocument(element)
+    if (!ownerDocument) return
+
+    let position = (event: PointerEvent | ReactPointerEvent) =>
+      axis === 'y' ? event.clientY : event.clientX
+
+    let pointerId = event.pointerId
+    let start = position(event)
+    let startOffset = offset.current
+    let dragging = false
+    let velocity = 0
+    let last = { offset: startOffset, timeStamp: event.nativeEvent.timeStamp }
+    let { transition } = element.style
+
+    let handlePointerMove = (event: PointerEvent) => {
+      let delta = (position(event) - start) * direction
+      if (!dragging) {
+        if (Math.abs(delta) < DRAG_THRESHOLD) return
+        dragging = true
+
+        // Keep receiving the pointer events when the pointer moves faster than the element. This
+        // only happens once it is a drag, otherwise clicks would target the element itself.
+        element!.setPointerCapture?.(pointerId)
+
+        // Follow the pointer without lagging behind because of a CSS transition
+        element!.style.transition = 'none'
+      }
+
+      let next = Math.min(Math.max(startOffset + delta, 0), sizeOf(element!))
+      let elapsed = event.timeStamp - last.timeStamp
+      if (elapsed > 0) velocity = (next - last.offset) / elapsed
+      last = { offset: next, timeStamp: event.timeStamp }
+
+      setOffset(element!, next)
+    }
+
+    let handlePointerEnd = (event: PointerEvent) => {
+      stop()
+      if (!dragging) return
+
+      element!.style.transition = transition
+      if (event.type === 'pointercancel') return setOffset(element!, startOffset)
+      release(element!, velocity)
+    }
+
+    ownerDocument.addEventListener('pointermove', handlePointerMove)
+    ownerDocument.addEventListener('pointerup', handlePointerEnd)
+    ownerDocument.addEventListener('pointercancel', handlePointerEnd)
+    let stop = d.add(() => {
+      ownerDocument!.removeEventListener('pointermove', handlePointerMove)
+      ownerDocument!.removeEventListener('pointerup', handlePointerEnd)
+      ownerDocument!.removeEventListener('pointercancel', handlePointerEnd)
+    })
+  })
+}
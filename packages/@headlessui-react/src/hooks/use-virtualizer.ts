@@ -0,0 +1,85 @@
+import { useEffect, useState, MutableRefObject } from 'react'
+import { disposables } from '../utils/disposables'
+import { useEvent } from './use-event'
+
+export function useVirtualizer({
+  count,
+  scrollRef,
+  estimateSize = 40,
+  overscan = 5,
+  enabled = true,
+}: {
+  count: number
+  scrollRef: MutableRefObject<HTMLElement | null>
+  estimateSize?: number
+  overscan?: number
+  enabled?: boolean
+}) {
+  let [scrollTop, setScrollTop] = useState(0)
+  let [viewportSize, setViewportSize] = useState(0)
+  let [measuredSize, setMeasuredSize] = useState<number | null>(null)
+  let size = measuredSize ?? estimateSize
+
+  // We are using a normal effect instead of an iso-morphic one, because the scroll container is
+  // typically a parent of the component using this hook, and its ref is only attached after the
+  // layout effects of its children ran.
+  useEffect(() => {
+    if (!enabled) return
+    let element = scrollRef.current
+    if (!element) return
+
+    let d = disposables()
+
+    function sync() {
+      setScrollTop(element!.scrollTop)
+      setViewportSize(element!.clientHeight)
+    }
+
+    sync()
+    d.addEventListener(element, 'scroll', sync, { passive: true })
+
+    if (typeof ResizeObserver !== 'undefined') {
+      let observer = new ResizeObserver(sync)
+      observer.observe(element)
+      d.add(() => observer.disconnect())
+    }
+
+    return d.dispose
+  }, [enabled, scrollRef])
+
+  let measure = useEvent((element: HTMLElement | null) => {
+    if (!element) return
+
+    let { height } = element.getBoundingClientRect()
+    if (height > 0 && height !== measuredSize) setMeasuredSize(height)
+  })
+
+  let scrollToIndex = useEvent((index: number) => {
+    let element = scrollRef.current
+    if (!element) return
+
+    let top = index * size
+    let bottom = top + size
+    let next = element.scrollTop
+
+    // Only scroll as much as needed to make the item visible, similar to `{ block: 'nearest' }`.
+    if (top < next) {
+      next = top
+    } else if (bottom > next + element.clientHeight) {
+      next = bottom - element.clientHeight
+    }
+
+    element.scrollTop = next
+    setScrollTop(next)
+  })
+
+  let start = Math.max(0, Math.floor(scrollTop / size) - overscan)
+  let end = Math.min(count - 1, Math.ceil((scrollTop + viewportSize) / size) + overscan)
+
+  let items: { index: number; start: number }[] = []
+  for (let index = start; index <= end; index++) {
+    items.push({ index, start: index * size })
+  }
+
+  return { items, totalSize: count * size, measure, scrollToIndex }
+}
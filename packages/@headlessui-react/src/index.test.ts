@@ -17,6 +17,7 @@ it('should expose the correct components', () => {
     'RadioGroup',
     'Switch',
     'Tab',
+    'Tooltip',
     'Transition',
   ])
 })
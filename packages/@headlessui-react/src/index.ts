@@ -9,4 +9,5 @@ export * from './components/portal/portal'
 export * from './components/radio-group/radio-group'
 export * from './components/switch/switch'
 export * from './components/tabs/tabs'
+export * from './components/tooltip/tooltip'
 export * from './components/transitions/transition'
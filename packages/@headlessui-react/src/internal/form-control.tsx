@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Hidden, Features as HiddenFeatures } from './hidden'
+import { useEvent } from '../hooks/use-event'
+import { disposables } from '../utils/disposables'
+
+interface FormControlProps {
+  /** Whether the component currently holds a value. */
+  filled: boolean
+  required?: boolean
+  validationMessage?: string
+
+  /**
+   * Called when the parent form is blocked from submitting because this control is invalid. Just
+   * like native validation, only the first invalid control of the form should receive focus.
+   */
+  onInvalid(shouldFocus: boolean): void
+
+  /** Called when the parent form is reset. */
+  onReset(): void
+}
+
+/**
+ * Whether the control failed validation. It becomes invalid once the parent form is blocked from
+ * submitting because of it, and valid again as soon as the user fixed it.
+ */
+export function useInvalid({
+  filled,
+  required = false,
+  validationMessage = '',
+}: Pick<FormControlProps, 'filled' | 'required' | 'validationMessage'>) {
+  let [invalid, setInvalid] = useState(false)
+
+  let valid = (filled || !required) && validationMessage === ''
+  useEffect(() => {
+    if (valid) setInvalid(false)
+  }, [valid])
+
+  let markInvalid = useEvent(() => setInvalid(true))
+
+  return [invalid, markInvalid] as const
+}
+
+// The `invalid` event fires for every invalid control of the form in turn, the browser doesn't tell
+// us which one comes first.
+function isFirstInvalidControl(input: HTMLInputElement) {
+  if (!input.form) return true
+
+  for (let element of Array.from(input.form.elements)) {
+    if (!('validity' in element)) continue
+    let control = element as HTMLInputElement
+    if (control.willValidate && !control.validity.valid) return control === input
+  }
+
+  return true
+}
+
+// The hidden inputs we render for the values can't participate in constraint validation, and they
+// don't know anything about the state of the component when the form is reset. This input acts on
+// behalf of the component instead, so that we can hook into the native form behaviour.
+//
+// It's a checkbox, because text inputs block the implicit submission of forms with multiple fields.
+export function FormControl({
+  filled,
+  required = false,
+  validationMessage = '',
+  onInvalid,
+  onReset,
+}: FormControlProps) {
+  let inputRef = useRef<HTMLInputElement | null>(null)
+
+  let handleInvalid = useEvent((event: React.FormEvent<HTMLInputElement>) => {
+    // The input itself is not focusable, instead of letting the browser complain about that we will
+    // move focus to the visible control.
+    event.preventDefault()
+    onInvalid(isFirstInvalidControl(event.currentTarget))
+  })
+
+  let handleReset = useEvent(() => onReset())
+
+  useEffect(() => {
+    let form = inputRef.current?.form
+    if (!form) return
+
+    let d = disposables()
+    d.addEventListener(form, 'reset', handleReset)
+    return d.dispose
+  }, [handleReset])
+
+  useEffect(() => {
+    inputRef.current?.setCustomValidity(validationMessage)
+  }, [validationMessage])
+
+  return (
+    <Hidden
+      features={HiddenFeatures.Hidden}
+      as="input"
+      ref={inputRef}
+      type="checkbox"
+      tabIndex={-1}
+      hidden
+      required={required}
+      checked={filled}
+      onChange={() => {}}
+      onInvalid={handleInvalid}
+    />
+  )
+}
@@ -0,0 +1,74 @@
+import React, {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+
+  // Types
+  ReactNode,
+} from 'react'
+import { useId } from '../hooks/use-id'
+import { useIsoMorphicEffect } from '../hooks/use-iso-morphic-effect'
+
+let GroupContext = createContext<{
+  value: unknown
+  setLabelId(id: string | null): void
+} | null>(null)
+GroupContext.displayName = 'GroupContext'
+
+interface GroupProviderProps {
+  value?: unknown
+  children: ReactNode
+}
+
+/**
+ * The props for an element with `role="group"`, labelled by the label that is rendered inside the
+ * provider.
+ */
+export function useGroup(): [
+  { role: 'group'; 'aria-labelledby': string | undefined },
+  (props: GroupProviderProps) => JSX.Element
+] {
+  let [labelId, setLabelId] = useState<string | null>(null)
+
+  return [
+    { role: 'group', 'aria-labelledby': labelId ?? undefined },
+
+    // The provider component
+    useMemo(() => {
+      return function GroupProvider({ value, children }: GroupProviderProps) {
+        let context = useMemo(() => ({ value, setLabelId }), [value])
+        return <GroupContext.Provider value={context}>{children}</GroupContext.Provider>
+      }
+    }, [setLabelId]),
+  ]
+}
+
+/**
+ * The props for the label of the closest group.
+ */
+export function useGroupLabel(component: string, group: string, prefix: string) {
+  let context = useContext(GroupContext)
+  if (context === null) {
+    let err = new Error(`<${component} /> is missing a parent <${group} /> component.`)
+    if (Error.captureStackTrace) Error.captureStackTrace(err, useGroupLabel)
+    throw err
+  }
+
+  let { setLabelId } = context
+  let id = `headlessui-${prefix}-${useId()}`
+
+  useIsoMorphicEffect(() => {
+    setLabelId(id)
+    return () => setLabelId(null)
+  }, [id, setLabelId])
+
+  return { id, role: 'presentation' as const }
+}
+
+/**
+ * The value of the closest group, if any.
+ */
+export function useGroupValue() {
+  return useContext(GroupContext)?.value
+}
@@ -1695,6 +1695,52 @@ export function assertTabs(
 
 // ---
 
+export function getTooltip(): HTMLElement | null {
+  return document.querySelector('[role="tooltip"]')
+}
+
+// ---
+
+export enum TooltipState {
+  /** The tooltip is visible to the user. */
+  Visible,
+
+  /** The tooltip is **not** visible to the user. It's not in the DOM at all. */
+  InvisibleUnmounted,
+}
+
+export function assertTooltip(
+  { state }: { state: TooltipState },
+  trigger: HTMLElement | null,
+  tooltip = getTooltip()
+) {
+  try {
+    if (trigger === null) return expect(trigger).not.toBe(null)
+
+    switch (state) {
+      case TooltipState.Visible:
+        if (tooltip === null) return expect(tooltip).not.toBe(null)
+
+        expect(tooltip).toHaveAttribute('id')
+        expect(trigger).toHaveAttribute('aria-describedby', tooltip.id)
+        break
+
+      case TooltipState.InvisibleUnmounted:
+        expect(tooltip).toBe(null)
+        expect(trigger).not.toHaveAttribute('aria-describedby')
+        break
+
+      default:
+        assertNever(state)
+    }
+  } catch (err) {
+    if (err instanceof Error) Error.captureStackTrace(err, assertTooltip)
+    throw err
+  }
+}
+
+// ---
+
 export function assertActiveElement(element: HTMLElement | null) {
   try {
     if (element === null) return expect(element).not.toBe(null)
@@ -31,6 +31,9 @@ export let Keys: Record<string, Partial<KeyboardEvent>> = {
   PageDown: { key: 'PageDown', keyCode: 34 },
 
   Tab: { key: 'Tab', keyCode: 9, charCode: 9 },
+
+  F10: { key: 'F10', keyCode: 121 },
+  ContextMenu: { key: 'ContextMenu', keyCode: 93 },
 }
 
 export function shift(event: Partial<KeyboardEvent>) {
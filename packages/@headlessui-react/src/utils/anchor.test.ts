@@ -0,0 +1,87 @@
+import { computeAnchorPosition, resolveAnchor, AnchorProps } from './anchor'
+
+let viewport = { width: 1000, height: 800 }
+
+function rect(left: number, top: number, width: number, height: number) {
+  return { left, top, width, height, right: left + width, bottom: top + height }
+}
+
+function compute(
+  reference: ReturnType<typeof rect>,
+  floating: { width: number; height: number },
+  anchor: AnchorProps
+) {
+  return computeAnchorPosition(reference, floating, viewport, resolveAnchor(anchor)!)
+}
+
+it('should not resolve an anchor when none is provided', () => {
+  expect(resolveAnchor(undefined)).toBe(null)
+  expect(resolveAnchor(null)).toBe(null)
+})
+
+it.each([
+  ['bottom', { x: 450, y: 220 }],
+  ['bottom start', { x: 400, y: 220 }],
+  ['bottom end', { x: 500, y: 220 }],
+  ['top', { x: 450, y: 100 }],
+  ['right start', { x: 600, y: 200 }],
+  ['left end', { x: 300, y: 120 }],
+] as const)('should position the panel at the %s of the reference', (to, expected) => {
+  expect(compute(rect(400, 200, 200, 20), { width: 100, height: 100 }, to)).toMatchObject({
+    ...expected,
+    placement: to,
+  })
+})
+
+it('should apply the gap and offset', () => {
+  expect(
+    compute(
+      rect(400, 200, 200, 20),
+      { width: 100, height: 100 },
+      { to: 'bottom start', gap: 8, offset: 4 }
+    )
+  ).toMatchObject({ x: 404, y: 228 })
+})
+
+it('should flip to the other side when there is not enough room', () => {
+  expect(compute(rect(400, 700, 200, 20), { width: 100, height: 200 }, 'bottom start')).toEqual({
+    x: 400,
+    y: 500,
+    placement: 'top start',
+    maxHeight: 700,
+    overflow: false,
+    width: null,
+  })
+})
+
+it('should not flip when the other side has even less room', () => {
+  expect(compute(rect(400, 100, 200, 20), { width: 100, height: 800 }, 'bottom')).toMatchObject({
+    y: 120,
+    placement: 'bottom',
+    maxHeight: 680,
+    overflow: true,
+  })
+})
+
+it('should shift the panel to stay within the viewport', () => {
+  expect(
+    compute(
+      rect(950, 200, 40, 20),
+      { width: 200, height: 100 },
+      { to: 'bottom start', padding: 10 }
+    )
+  ).toMatchObject({ x: 790 })
+  expect(
+    compute(rect(10, 200, 40, 20), { width: 200, height: 100 }, { to: 'bottom end', padding: 10 })
+  ).toMatchObject({ x: 10 })
+})
+
+it('should be possible to match the width of the reference', () => {
+  expect(
+    compute(
+      rect(400, 200, 300, 20),
+      { width: 100, height: 100 },
+      { to: 'bottom', matchWidth: true }
+    )
+  ).toMatchObject({ x: 400, width: 300 })
+})
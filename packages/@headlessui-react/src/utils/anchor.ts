@@ -0,0 +1,134 @@
+type Side = 'top' | 'bottom' | 'left' | 'right'
+type Align = 'start' | 'end'
+
+export type AnchorPlacement = Side | `${Side} ${Align}`
+
+export interface AnchorOptions {
+  /** Where the panel is placed relative to its reference. */
+  to?: AnchorPlacement
+
+  /** Distance between the reference and the panel. */
+  gap?: number
+
+  /** Shift of the panel along the edge of the reference. */
+  offset?: number
+
+  /** Minimum distance between the panel and the edges of the viewport. */
+  padding?: number
+
+  /** Whether the panel should be as wide as its reference. */
+  matchWidth?: boolean
+}
+
+export type AnchorProps = AnchorPlacement | AnchorOptions
+
+export type ResolvedAnchor = Required<Omit<AnchorOptions, 'to'>> & {
+  side: Side
+  align: Align | null
+}
+
+export interface AnchorPosition {
+  x: number
+  y: number
+  placement: AnchorPlacement
+  maxHeight: number
+  /** Whether the panel is taller than the available room, so that it has to scroll. */
+  overflow: boolean
+  width: number | null
+}
+
+interface Rect {
+  top: number
+  right: number
+  bottom: number
+  left: number
+  width: number
+  height: number
+}
+
+interface Size {
+  width: number
+  height: number
+}
+
+let opposites: Record<Side, Side> = { top: 'bottom', bottom: 'top', left: 'right', right: 'left' }
+
+export function resolveAnchor(anchor: AnchorProps | null | undefined): ResolvedAnchor | null {
+  if (!anchor) return null
+
+  let {
+    to = 'bottom',
+    gap = 0,
+    offset = 0,
+    padding = 0,
+    matchWidth = false,
+  } = typeof anchor === 'string' ? { to: anchor } : anchor
+  let [side, align = null] = to.split(' ') as [Side, Align | undefined]
+
+  return { side, align, gap, offset, padding, matchWidth }
+}
+
+export function computeAnchorPosition(
+  reference: Rect,
+  floating: Size,
+  viewport: Size,
+  { side, align, gap, offset, padding, matchWidth }: ResolvedAnchor
+): AnchorPosition {
+  let available: Record<Side, number> = {
+    top: reference.top - gap - padding,
+    bottom: viewport.height - reference.bottom - gap - padding,
+    left: reference.left - gap - padding,
+    right: viewport.width - reference.right - gap - padding,
+  }
+
+  let vertical = side === 'top' || side === 'bottom'
+  let width = matchWidth && vertical ? reference.width : floating.width
+  let height = floating.height
+
+  // Flip to the other side when the panel doesn't fit, but only if there is more room over there.
+  let size = vertical ? height : width
+  if (size > available[side] && available[opposites[side]] > available[side]) {
+    side = opposites[side]
+  }
+
+  let maxHeight = Math.max(0, vertical ? available[side] : viewport.height - padding * 2)
+  let overflow = height > maxHeight
+  height = Math.min(height, maxHeight)
+
+  let x: number
+  let y: number
+
+  if (vertical) {
+    y = side === 'top' ? reference.top - gap - height : reference.bottom + gap
+    x =
+      align === 'start'
+        ? reference.left
+        : align === 'end'
+        ? reference.right - width
+        : reference.left + (reference.width - width) / 2
+    x = shift(x + offset, width, viewport.width, padding)
+  } else {
+    x = side === 'left' ? reference.left - gap - width : reference.right + gap
+    y =
+      align === 'start'
+        ? reference.top
+        : align === 'end'
+        ? reference.bottom - height
+        : reference.top + (reference.height - height) / 2
+    y = shift(y + offset, height, viewport.height, padding)
+  }
+
+  return {
+    x,
+    y,
+    placement: align === null ? side : `${side} ${align}`,
+    maxHeight,
+    overflow,
+    width: matchWidth && vertical ? reference.width : null,
+  }
+}
+
+// Keep the panel within the viewport, as long as it fits.
+function shift(position: number, size: number, viewportSize: number, padding: number) {
+  return Math.max(padding, Math.min(position, viewportSize - padding - size))
+}
@@ -0,0 +1,20 @@
+import { isWithinSafeTriangle } from './safe-triangle'
+
+let target = { left: 100, top: 100, right: 300, bottom: 200 }
+
+it.each([
+  ['above', { x: 200, y: 50 }, { x: 250, y: 90 }],
+  ['below', { x: 200, y: 250 }, { x: 150, y: 210 }],
+  ['the left', { x: 50, y: 150 }, { x: 90, y: 110 }],
+  ['the right', { x: 350, y: 150 }, { x: 310, y: 190 }],
+])('should detect points moving towards the target from %s', (_, origin, point) => {
+  expect(isWithinSafeTriangle(origin, target, point)).toBe(true)
+})
+
+it('should not detect points moving away from the target', () => {
+  let origin = { x: 200, y: 50 }
+
+  expect(isWithinSafeTriangle(origin, target, { x: 200, y: 40 })).toBe(false)
+  expect(isWithinSafeTriangle(origin, target, { x: 120, y: 60 })).toBe(false)
+  expect(isWithinSafeTriangle(origin, target, { x: 400, y: 90 })).toBe(false)
+})
@@ -0,0 +1,57 @@
+interface Point {
+  x: number
+  y: number
+}
+
+interface Rect {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+/**
+ * The triangle between the point where the pointer left an element and the side of the target
+ * element that faces that point. While the pointer stays within this area, it is most likely on
+ * its way to the target, even when it crosses elements in between.
+ */
+export function isWithinSafeTriangle(origin: Point, target: Rect, point: Point) {
+  let [a, b] =
+    origin.y <= target.top
+      ? [
+          { x: target.left, y: target.top },
+          { x: target.right, y: target.top },
+        ]
+      : origin.y >= target.bottom
+      ? [
+          { x: target.left, y: target.bottom },
+          { x: target.right, y: target.bottom },
+        ]
+      : origin.x <= target.left
+      ? [
+          { x: target.left, y: target.top },
+          { x: target.left, y: target.bottom },
+        ]
+      : [
+          { x: target.right, y: target.top },
+          { x: target.right, y: target.bottom },
+        ]
+
+  return isWithinTriangle(point, origin, a, b)
+}
+
+function isWithinTriangle(point: Point, a: Point, b: Point, c: Point) {
+  let ab = side(point, a, b)
+  let bc = side(point, b, c)
+  let ca = side(point, c, a)
+
+  let hasNegative = ab < 0 || bc < 0 || ca < 0
+  let hasPositive = ab > 0 || bc > 0 || ca > 0
+
+  return !(hasNegative && hasPositive)
+}
+
+// Which side of the line through `a` and `b` the point is on.
+function side(point: Point, a: Point, b: Point) {
+  return (point.x - b.x) * (a.y - b.y) - (a.x - b.x) * (point.y - b.y)
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, Fragment } from 'react'
+import React, { useState, useEffect } from 'react'
 import { Combobox } from '@headlessui/react'
 
 import { classNames } from '../../utils/class-names'
@@ -69,8 +69,10 @@ export default function Home() {
                       {Array.from(groups.entries())
                         .sort(([letterA], [letterZ]) => letterA.localeCompare(letterZ))
                         .map(([letter, people]) => (
-                          <Fragment key={letter}>
-                            <div className="bg-gray-100 px-4 py-2">{letter}</div>
+                          <Combobox.Group key={letter} value={letter}>
+                            <Combobox.GroupLabel className="bg-gray-100 px-4 py-2">
+                              {letter}
+                            </Combobox.GroupLabel>
                             {people.map((person) => (
                               <Combobox.Option
                                 key={person.id}
@@ -118,7 +120,7 @@ export default function Home() {
                                 )}
                               </Combobox.Option>
                             ))}
-                          </Fragment>
+                          </Combobox.Group>
                         ))}
                     </Combobox.Options>
 